@@ -0,0 +1,246 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import crypto from "node:crypto";
+import Tar from "./Tar";
+
+/**
+ * World backup archives. Each backup is a `.tar.gz` archive with a JSON manifest stored next to it and inside it.
+ */
+export namespace Backup {
+  export interface Manifest {
+    id: string;
+    /**
+     * Optional label given when the backup was taken.
+     */
+    label?: string;
+    /**
+     * ISO timestamp of when the backup was taken.
+     */
+    created: string;
+    server: string;
+    version?: string;
+    levelName: string;
+    /**
+     * Directories included in the backup, relative to the server root.
+     */
+    directories: string[];
+    files: number;
+    /**
+     * Total size of the backed up files in bytes.
+     */
+    size: number;
+    /**
+     * File name of the archive, relative to the backup directory.
+     */
+    archive: string;
+    archiveSize: number;
+    sha256: string;
+    /**
+     * Whether saving was paused on a running server while the backup was taken.
+     */
+    live: boolean;
+  }
+
+  export interface RetentionPolicy {
+    /**
+     * Keep the newest N backups.
+     */
+    keepLast?: number;
+    /**
+     * Keep the newest backup of each of the last N days that have backups.
+     */
+    keepDaily?: number;
+    /**
+     * Keep the newest backup of each of the last N weeks that have backups.
+     */
+    keepWeekly?: number;
+  }
+
+  export interface Options {
+    /**
+     * Label stored in the manifest.
+     */
+    label?: string;
+    /**
+     * Retention policy applied after the backup is taken. Default is the server's `backupRetention`.
+     */
+    retention?: RetentionPolicy;
+    /**
+     * Time in milliseconds to wait for the server to finish saving. Default is 60000.
+     */
+    saveTimeout?: number;
+  }
+
+  export const manifestEntry = "ionmc-backup.json";
+
+  /**
+   * Create a backup archive of directories in a server.
+   * @param serverPath Root directory of the server.
+   * @param directories Directories to include, relative to `serverPath`.
+   * @param backupDir Directory to write the archive and manifest to.
+   */
+  export async function create(
+    serverPath: string,
+    directories: string[],
+    backupDir: string,
+    info: Pick<Manifest, "server" | "version" | "levelName" | "label" | "live">
+  ): Promise<Manifest> {
+    await fsp.mkdir(backupDir, { recursive: true });
+    const created = new Date();
+    const id = created.toISOString().replace(/[:.]/g, "-");
+    const archive = `${id}.tar.gz`;
+
+    const files: { source: string; name: string; size: number }[] = [];
+    for (const dir of directories) {
+      for await (const file of walk(Path.join(serverPath, dir))) {
+        // session.lock is held open by the running server and not needed for a restore
+        if (Path.basename(file) === "session.lock") continue;
+        const stat = await fsp.stat(file);
+        files.push({ source: file, name: Path.relative(serverPath, file).split(Path.sep).join("/"), size: stat.size });
+      }
+    }
+
+    const manifest: Manifest = {
+      id,
+      label: info.label,
+      created: created.toISOString(),
+      server: info.server,
+      version: info.version,
+      levelName: info.levelName,
+      directories,
+      files: files.length,
+      size: files.reduce((total, f) => total + f.size, 0),
+      archive,
+      archiveSize: 0,
+      sha256: "",
+      live: info.live
+    };
+
+    const archivePath = Path.join(backupDir, archive);
+    try {
+      await Tar.pack(archivePath, [
+        { name: manifestEntry, data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+        ...files
+      ]);
+    } catch (error) {
+      await fsp.rm(archivePath, { force: true });
+      throw error;
+    }
+
+    manifest.archiveSize = (await fsp.stat(archivePath)).size;
+    manifest.sha256 = await hashFile(archivePath);
+    await fsp.writeFile(Path.join(backupDir, `${id}.json`), JSON.stringify(manifest, null, 2));
+    return manifest;
+  }
+
+  /**
+   * List the backups in a backup directory, newest first.
+   */
+  export async function list(backupDir: string): Promise<Manifest[]> {
+    const files = await fsp.readdir(backupDir).catch(() => [] as string[]);
+    const manifests: Manifest[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const manifest: Manifest = JSON.parse(await fsp.readFile(Path.join(backupDir, file), "utf-8"));
+        if (manifest.id && manifest.archive) manifests.push(manifest);
+      } catch {
+        // Not a backup manifest
+      }
+    }
+    return manifests.sort((a, b) => b.created.localeCompare(a.created));
+  }
+
+  /**
+   * Pick the backups a retention policy doesn't keep. A policy without any rules keeps everything.
+   * @param manifests Backups to check.
+   * @returns The backups to remove.
+   */
+  export function selectExpired(manifests: Manifest[], policy: RetentionPolicy): Manifest[] {
+    if (policy.keepLast === undefined && policy.keepDaily === undefined && policy.keepWeekly === undefined) {
+      return [];
+    }
+
+    const sorted = [...manifests].sort((a, b) => b.created.localeCompare(a.created));
+    const keep = new Set<string>();
+
+    sorted.slice(0, policy.keepLast ?? 0).forEach(m => keep.add(m.id));
+
+    const keepPer = (count: number | undefined, bucket: (date: Date) => string) => {
+      if (!count) return;
+      const seen = new Set<string>();
+      for (const m of sorted) {
+        const key = bucket(new Date(m.created));
+        if (seen.has(key)) continue;
+        seen.add(key);
+        if (seen.size > count) break;
+        keep.add(m.id);
+      }
+    };
+    keepPer(policy.keepDaily, date => date.toISOString().slice(0, 10));
+    keepPer(policy.keepWeekly, isoWeek);
+
+    return sorted.filter(m => !keep.has(m.id));
+  }
+
+  /**
+   * Delete a backup's archive and manifest.
+   */
+  export async function remove(backupDir: string, manifest: Manifest) {
+    await fsp.rm(Path.join(backupDir, manifest.archive), { force: true });
+    await fsp.rm(Path.join(backupDir, `${manifest.id}.json`), { force: true });
+  }
+
+  /**
+   * Restore a backup into a server directory. The directories in the backup are replaced entirely.
+   * The archive is verified against the manifest and extracted to a temporary directory first, so a failed restore leaves the current world untouched.
+   */
+  export async function restore(backupDir: string, manifest: Manifest, serverPath: string) {
+    const archivePath = Path.join(backupDir, manifest.archive);
+    if (manifest.sha256 && await hashFile(archivePath) !== manifest.sha256) {
+      throw new Error(`Backup ${manifest.id} is corrupt: checksum does not match the manifest`);
+    }
+
+    const tmp = Path.join(serverPath, `.ionmc-restore-${manifest.id}`);
+    await fsp.rm(tmp, { recursive: true, force: true });
+    try {
+      await Tar.extract(archivePath, tmp, { filter: name => name !== manifestEntry });
+      for (const dir of manifest.directories) {
+        const target = Path.join(serverPath, dir);
+        await fsp.rm(target, { recursive: true, force: true });
+        if (await fsp.stat(Path.join(tmp, dir)).then(() => true).catch(() => false)) {
+          await fsp.rename(Path.join(tmp, dir), target);
+        }
+      }
+    } finally {
+      await fsp.rm(tmp, { recursive: true, force: true });
+    }
+  }
+
+  async function* walk(dir: string): AsyncGenerator<string> {
+    const entries = await fsp.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const full = Path.join(dir, entry.name);
+      if (entry.isDirectory()) yield* walk(full);
+      else if (entry.isFile()) yield full;
+    }
+  }
+
+  async function hashFile(path: string) {
+    const hash = crypto.createHash("sha256");
+    for await (const chunk of fs.createReadStream(path)) hash.update(chunk as Buffer);
+    return hash.digest("hex");
+  }
+
+  function isoWeek(date: Date) {
+    const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const day = d.getUTCDay() || 7;
+    d.setUTCDate(d.getUTCDate() + 4 - day);
+    const yearStart = new Date(Date.UTC(d.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((d.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return `${d.getUTCFullYear()}-W${week}`;
+  }
+}
+
+export default Backup;
@@ -0,0 +1,128 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+
+/**
+ * A parsed file from the `crash-reports` directory.
+ */
+export interface CrashReport {
+  /**
+   * Path to the crash report file.
+   */
+  file: string;
+  /**
+   * The witty comment at the top of the report.
+   */
+  comment?: string;
+  /**
+   * Time as written in the report.
+   */
+  time?: string;
+  description?: string;
+  /**
+   * First line of the exception, e.g. `java.lang.NullPointerException: Cannot invoke ...`.
+   */
+  exception?: string;
+  stackTrace: string[];
+  minecraftVersion?: string;
+  /**
+   * Key/value pairs of the `System Details` section.
+   */
+  systemDetails: Record<string, string>;
+  /**
+   * Body of each `-- Section --`, keyed by its name.
+   */
+  sections: Record<string, string>;
+  raw: string;
+}
+
+export namespace CrashReport {
+  /**
+   * Parse the text of a crash report.
+   */
+  export function parse(text: string, file: string = ""): CrashReport {
+    const lines = text.split(/\r?\n/);
+    const report: CrashReport = {
+      file,
+      stackTrace: [],
+      systemDetails: {},
+      sections: {},
+      raw: text
+    };
+
+    let i = 0;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      let match: RegExpMatchArray | null;
+      if (!report.comment && (match = line.match(/^\/\/\s*(.*)$/))) report.comment = match[1];
+      else if (match = line.match(/^Time:\s*(.*)$/)) report.time = match[1];
+      else if (match = line.match(/^Description:\s*(.*)$/)) {
+        report.description = match[1];
+        i++;
+        break;
+      }
+    }
+
+    // The exception follows the description after a blank line
+    while (i < lines.length && lines[i].trim() === "") i++;
+    if (i < lines.length && !lines[i].startsWith("--") && !lines[i].startsWith("A detailed walkthrough")) {
+      report.exception = lines[i].trim();
+      for (i++; i < lines.length && lines[i].trim() !== ""; i++) {
+        report.stackTrace.push(lines[i].trim());
+      }
+    }
+
+    let section: string | null = null;
+    let body: string[] = [];
+    const flush = () => {
+      if (section) report.sections[section] = body.join("\n").trim();
+    };
+    for (; i < lines.length; i++) {
+      const match = lines[i].match(/^-- (.+) --$/);
+      if (match) {
+        flush();
+        section = match[1];
+        body = [];
+      }
+      else if (section) {
+        body.push(lines[i]);
+      }
+    }
+    flush();
+
+    const details = report.sections["System Details"];
+    if (details) {
+      for (const line of details.split("\n")) {
+        const match = line.match(/^\s+([^:]+):\s*(.*)$/);
+        if (match) report.systemDetails[match[1].trim()] = match[2].trim();
+      }
+      report.minecraftVersion = report.systemDetails["Minecraft Version"];
+    }
+
+    return report;
+  }
+
+  /**
+   * Read the newest crash report in a server directory.
+   * @param serverPath Root directory of the server.
+   * @param since Only return a report written after this time.
+   * @returns The parsed report, or null if there is none.
+   */
+  export async function findLatest(serverPath: string, since?: Date): Promise<CrashReport | null> {
+    const dir = Path.join(serverPath, "crash-reports");
+    const files = await fsp.readdir(dir).catch(() => [] as string[]);
+
+    let newest: { file: string; mtime: number } | null = null;
+    for (const file of files) {
+      if (!file.endsWith(".txt")) continue;
+      const stat = await fsp.stat(Path.join(dir, file)).catch(() => null);
+      if (!stat || (since && stat.mtimeMs < since.getTime())) continue;
+      if (!newest || stat.mtimeMs > newest.mtime) newest = { file, mtime: stat.mtimeMs };
+    }
+    if (!newest) return null;
+
+    const path = Path.join(dir, newest.file);
+    return parse(await fsp.readFile(path, "utf-8"), path);
+  }
+}
+
+export default CrashReport;
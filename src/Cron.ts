@@ -0,0 +1,161 @@
+/**
+ * Parsing and evaluation of 5 field cron expressions: `minute hour day-of-month month day-of-week`.
+ *
+ * Fields support `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`), lists (`1,15`) and month and weekday names (`jan`, `mon`).
+ * The shortcuts `@hourly`, `@daily`, `@midnight`, `@weekly`, `@monthly`, `@yearly` and `@annually` are accepted as well.
+ * When both day-of-month and day-of-week are restricted, a day matching either of them matches, like in most cron implementations.
+ * Times are evaluated in the local time zone.
+ */
+export namespace Cron {
+  export interface Expression {
+    source: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    /**
+     * Whether the day-of-month field is `*`.
+     */
+    anyDay: boolean;
+    /**
+     * Whether the day-of-week field is `*`.
+     */
+    anyWeekday: boolean;
+  }
+
+  const shortcuts: Record<string, string> = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *",
+  };
+
+  const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+  const weekdayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+  /**
+   * Parse a cron expression.
+   * @throws Error if the expression is invalid.
+   */
+  export function parse(expression: string): Expression {
+    const source = expression.trim();
+    const fields = (shortcuts[source.toLowerCase()] ?? source).split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minute, hour, day, month, weekday] = fields;
+    const weekdays = parseField(weekday, 0, 7, weekdayNames, expression);
+    // 7 is Sunday as well
+    if (weekdays.delete(7)) weekdays.add(0);
+
+    return {
+      source,
+      minutes: parseField(minute, 0, 59, null, expression),
+      hours: parseField(hour, 0, 23, null, expression),
+      days: parseField(day, 1, 31, null, expression),
+      months: parseField(month, 1, 12, monthNames, expression, 1),
+      weekdays,
+      anyDay: day === "*",
+      anyWeekday: weekday === "*",
+    };
+  }
+
+  function parseField(field: string, min: number, max: number, names: string[] | null, expression: string, nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+    const fail = (): never => {
+      throw new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+    };
+    const toNumber = (value: string) => {
+      const index = names?.indexOf(value.toLowerCase()) ?? -1;
+      if (index !== -1) return index + nameOffset;
+      if (!/^\d+$/.test(value)) fail();
+      const number = parseInt(value);
+      if (number < min || number > max) fail();
+      return number;
+    };
+
+    for (const part of field.split(",")) {
+      const [range, stepText] = part.split("/");
+      const step = stepText === undefined ? 1 : parseInt(stepText);
+      if (isNaN(step) || step < 1) fail();
+
+      let start: number;
+      let end: number;
+      if (range === "*") {
+        [start, end] = [min, max];
+      }
+      else if (range.includes("-")) {
+        const [from, to] = range.split("-");
+        [start, end] = [toNumber(from), toNumber(to)];
+        if (start > end) fail();
+      }
+      else {
+        start = toNumber(range);
+        // `5/10` means every 10 starting at 5
+        end = stepText === undefined ? start : max;
+      }
+      for (let i = start; i <= end; i += step) values.add(i);
+    }
+    return values;
+  }
+
+  /**
+   * Check whether a time matches an expression. Seconds are ignored.
+   */
+  export function matches(expression: Expression | string, date: Date): boolean {
+    const expr = typeof expression === "string" ? parse(expression) : expression;
+    return expr.minutes.has(date.getMinutes())
+      && expr.hours.has(date.getHours())
+      && expr.months.has(date.getMonth() + 1)
+      && matchesDay(expr, date);
+  }
+
+  function matchesDay(expr: Expression, date: Date) {
+    const day = expr.days.has(date.getDate());
+    const weekday = expr.weekdays.has(date.getDay());
+    if (expr.anyDay && expr.anyWeekday) return true;
+    if (expr.anyDay) return weekday;
+    if (expr.anyWeekday) return day;
+    return day || weekday;
+  }
+
+  /**
+   * Get the first time after `from` that matches an expression.
+   * @returns The time, or null if there is none within the next 5 years, such as for February 30th.
+   */
+  export function next(expression: Expression | string, from: Date = new Date()): Date | null {
+    const expr = typeof expression === "string" ? parse(expression) : expression;
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate(), from.getHours(), from.getMinutes() + 1);
+    const limit = new Date(from.getFullYear() + 5, from.getMonth(), from.getDate());
+
+    while (date < limit) {
+      if (!expr.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0);
+        continue;
+      }
+      if (!matchesDay(expr, date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0);
+        continue;
+      }
+      if (!expr.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0);
+        continue;
+      }
+      if (!expr.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1);
+        continue;
+      }
+      return date;
+    }
+    return null;
+  }
+}
+
+export default Cron;
@@ -0,0 +1,112 @@
+import MinecraftApi from "./MinecraftApi";
+import type ModProvider from "./ModProvider";
+
+/**
+ * Installs mods from CurseForge through the API of its website, which doesn't need an API key.
+ */
+export class CurseForgeProvider implements ModProvider {
+  public readonly name = "curseforge";
+
+  constructor(opts?: CurseForgeProvider.Options) {
+    this.apiUrl = opts?.apiUrl;
+    this.cdnUrl = opts?.cdnUrl;
+  }
+
+  /**
+   * Base URL of the website API used by this provider. Default is `MinecraftApi.curseforgeApiUrl`.
+   */
+  public apiUrl?: string;
+
+  /**
+   * Base URL of the CDN used by this provider. Default is `MinecraftApi.curseforgeCdnUrl`.
+   */
+  public cdnUrl?: string;
+
+  /**
+   * Pages through the files of a mod, newest first, until `fileId` is found. Alpha files are left out.
+   * Files that list their game versions must list `gameVersion` to be picked as the newest file, and `loader` if they list any loaders.
+   */
+  public async resolve(projectId: string | number, opts?: ModProvider.ResolveOptions): Promise<ModProvider.ModFile> {
+    opts ??= {};
+    const apiUrl = opts.api?.endpoints?.curseforgeApi ?? this.apiUrl ?? MinecraftApi.curseforgeApiUrl;
+    const fileId = opts.fileId ? opts.fileId.toString() : null;
+    const makeUrl = (page: number) => `${apiUrl}/mods/${projectId}/files?pageIndex=${page}&pageSize=50&sort=dateCreated&sortDescending=true&removeAlphas=true`;
+    const loader = opts.loader?.toLowerCase();
+    const supportsLoader = (gameVersions: string[]) => {
+      // Loaders are listed among the game versions, such as "Forge" or "NeoForge"
+      const loaders = gameVersions.map(v => v.toLowerCase()).filter(v => CurseForgeProvider.loaders.includes(v));
+      return loaders.length === 0 || loaders.includes(loader!);
+    };
+    const compatible = (file: CurseForgeProvider.File) => !file.gameVersions || (
+      (!opts!.gameVersion || file.gameVersions.includes(opts!.gameVersion)) && (!loader || supportsLoader(file.gameVersions))
+    );
+
+    let newest: CurseForgeProvider.File | undefined;
+    let found: CurseForgeProvider.File | undefined;
+    let page = 0;
+    let pages = 1;
+    do {
+      const { data, pagination }: CurseForgeProvider.FilesResponse = JSON.parse(await MinecraftApi.fetchCached(makeUrl(page), opts.api));
+      if (!data) throw new Error(`Failed to fetch the files of mod ${projectId}`);
+      pages = Math.ceil(pagination.totalCount / pagination.pageSize);
+      newest ??= data.find(compatible);
+      found = fileId ? data.find(file => file.id.toString() === fileId) : newest;
+    }
+    while (!found && ++page < pages);
+
+    // The requested file may have been removed, the newest file is used instead
+    const file = found ?? newest;
+    if (!file) throw new Error(`No files found for mod ${projectId}`);
+
+    return {
+      provider: this.name,
+      projectId: projectId.toString(),
+      fileId: file.id.toString(),
+      requestedFileId: fileId && fileId !== file.id.toString() ? fileId : undefined,
+      fileName: file.fileName,
+      url: this.getDownloadUrl(file.id, file.fileName, opts.api?.endpoints?.curseforgeCdn),
+      size: file.fileLength,
+      dependencies: []
+    };
+  }
+
+  /**
+   * Get the CDN URL of a file. The id is split into its first 4 digits and the rest, without leading zeros.
+   */
+  public getDownloadUrl(fileId: number, fileName: string, cdnUrl: string = this.cdnUrl ?? MinecraftApi.curseforgeCdnUrl): string {
+    const id = fileId.toString();
+    const first = id.slice(0, 4);
+    const rest = id.slice(4).replace(/^0+/, "");
+    return `${cdnUrl}/files/${first}/${rest}/${encodeURIComponent(fileName)}`;
+  }
+}
+
+export namespace CurseForgeProvider {
+  /**
+   * Mod loaders CurseForge lists among the game versions of a file, in lower case.
+   */
+  export const loaders = ["forge", "neoforge", "fabric", "quilt", "liteloader", "rift"];
+
+  export interface Options {
+    apiUrl?: string;
+    cdnUrl?: string;
+  }
+
+  export interface File {
+    id: number;
+    fileName: string;
+    fileLength?: number;
+    gameVersions?: string[];
+  }
+
+  export interface FilesResponse {
+    data: File[];
+    pagination: {
+      index: number;
+      pageSize: number;
+      totalCount: number;
+    };
+  }
+}
+
+export default CurseForgeProvider;
@@ -0,0 +1,381 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import http from "node:http";
+import https from "node:https";
+import crypto from "node:crypto";
+import EventEmitter from "node:events";
+import { wait } from "./Utilities";
+
+/**
+ * Downloads files over HTTP and HTTPS.
+ *
+ * Data is written to a `.part` file next to the destination, which is renamed into place once the download is complete and verified.
+ * Failed downloads are retried with exponential backoff, resuming from the partial file when the server supports range requests.
+ */
+export class Downloader extends EventEmitter {
+  /**
+   * Number of times a failed download is retried.
+   */
+  public retries: number;
+
+  /**
+   * Delay in milliseconds before the first retry. Doubled after each retry.
+   */
+  public retryDelay: number;
+
+  /**
+   * Maximum number of redirects to follow.
+   */
+  public maxRedirects: number;
+
+  /**
+   * Time in milliseconds without receiving data before a request is aborted.
+   */
+  public timeout: number;
+
+  /**
+   * Minimum time in milliseconds between `progress` events.
+   */
+  public progressInterval: number;
+
+  /**
+   * Headers sent with every request.
+   */
+  public headers: Record<string, string>;
+
+  constructor(opts?: Downloader.Options) {
+    super();
+    opts ??= {};
+    this.retries = opts.retries ?? 3;
+    this.retryDelay = opts.retryDelay ?? 1000;
+    this.maxRedirects = opts.maxRedirects ?? 10;
+    this.timeout = opts.timeout ?? 30000;
+    this.progressInterval = opts.progressInterval ?? 250;
+    this.headers = { "User-Agent": "ionmc-core", ...opts.headers };
+  }
+
+  /**
+   * Download a file.
+   * @param url URL to download.
+   * @param dest Path to write the file to. Parent directories are created.
+   * @throws Error if the download fails after all retries or the checksum doesn't match.
+   */
+  public async download(url: string, dest: string, opts?: Downloader.DownloadOptions): Promise<Downloader.Result> {
+    opts ??= {};
+    const part = `${dest}.part`;
+    await fsp.mkdir(Path.dirname(dest), { recursive: true });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        this.emit("start", { url, dest, attempt });
+        const result = await this.attempt(url, dest, part, opts);
+        this.emit("complete", result);
+        return result;
+      }
+      catch (error: unknown) {
+        // A corrupt partial file would fail again on resume
+        if (error instanceof Downloader.ChecksumError) {
+          await fsp.rm(part, { force: true });
+        }
+        const retryable = !(error instanceof Downloader.HttpError) || error.retryable;
+        if (!retryable || attempt > this.retries) {
+          throw error;
+        }
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        this.emit("retry", error instanceof Error ? error : new Error(String(error)), attempt, delay);
+        await wait(delay);
+      }
+    }
+  }
+
+  /**
+   * Download a file into memory. Meant for small files, such as checksums and metadata.
+   */
+  public async fetchText(url: string): Promise<string> {
+    const res = await this.request(url, {});
+    return await new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      res.on("data", chunk => chunks.push(chunk));
+      res.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+      res.on("error", reject);
+    });
+  }
+
+  private async attempt(url: string, dest: string, part: string, opts: Downloader.DownloadOptions): Promise<Downloader.Result> {
+    const hashes = {
+      sha1: opts.sha1 ? crypto.createHash("sha1") : null,
+      sha256: opts.sha256 ? crypto.createHash("sha256") : null,
+      sha512: opts.sha512 ? crypto.createHash("sha512") : null
+    };
+
+    let offset = await fsp.stat(part).then(s => s.size).catch(() => 0);
+    let res = await this.request(url, offset > 0 ? { Range: `bytes=${offset}-` } : {});
+
+    if (offset > 0 && res.statusCode === 416) {
+      // The partial file is no longer valid for this resource
+      res.resume();
+      await fsp.rm(part, { force: true });
+      offset = 0;
+      res = await this.request(url, {});
+    }
+    if (offset > 0 && res.statusCode !== 206) {
+      // Range not supported, start over
+      offset = 0;
+    }
+
+    if (offset > 0 && (hashes.sha1 || hashes.sha256 || hashes.sha512)) {
+      // Include the data downloaded by earlier attempts in the checksum
+      for await (const chunk of fs.createReadStream(part)) {
+        hashes.sha1?.update(chunk);
+        hashes.sha256?.update(chunk);
+        hashes.sha512?.update(chunk);
+      }
+    }
+
+    const length = parseInt(res.headers["content-length"] ?? "", 10);
+    const total = opts.size ?? (isNaN(length) ? undefined : offset + length);
+    const startedAt = Date.now();
+    let bytes = offset;
+    let lastProgress = 0;
+
+    const emitProgress = (force: boolean) => {
+      const now = Date.now();
+      if (!force && now - lastProgress < this.progressInterval) return;
+      lastProgress = now;
+      const elapsed = (now - startedAt) / 1000;
+      const speed = elapsed > 0 ? (bytes - offset) / elapsed : 0;
+      this.emit("progress", {
+        url,
+        dest,
+        bytes,
+        total,
+        speed,
+        eta: total !== undefined && speed > 0 ? (total - bytes) / speed : undefined,
+        percent: total ? (bytes / total) * 100 : undefined
+      });
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const file = fs.createWriteStream(part, { flags: offset > 0 ? "a" : "w" });
+      const fail = (error: Error) => {
+        res.destroy();
+        file.destroy();
+        reject(error);
+      };
+      res.on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+        hashes.sha1?.update(chunk);
+        hashes.sha256?.update(chunk);
+        hashes.sha512?.update(chunk);
+        emitProgress(false);
+      });
+      res.on("error", fail);
+      res.on("aborted", () => fail(new Error(`Download of ${url} was aborted`)));
+      file.on("error", fail);
+      file.on("finish", resolve);
+      res.pipe(file);
+    });
+    emitProgress(true);
+
+    if (total !== undefined && bytes !== total) {
+      throw new Error(`Incomplete download of ${url}: got ${bytes} of ${total} bytes`);
+    }
+
+    const result: Downloader.Result = { url, path: dest, size: bytes };
+    if (hashes.sha1) {
+      result.sha1 = hashes.sha1.digest("hex");
+      if (result.sha1 !== opts.sha1!.toLowerCase()) {
+        throw new Downloader.ChecksumError(url, "sha1", opts.sha1!, result.sha1);
+      }
+    }
+    if (hashes.sha256) {
+      result.sha256 = hashes.sha256.digest("hex");
+      if (result.sha256 !== opts.sha256!.toLowerCase()) {
+        throw new Downloader.ChecksumError(url, "sha256", opts.sha256!, result.sha256);
+      }
+    }
+    if (hashes.sha512) {
+      result.sha512 = hashes.sha512.digest("hex");
+      if (result.sha512 !== opts.sha512!.toLowerCase()) {
+        throw new Downloader.ChecksumError(url, "sha512", opts.sha512!, result.sha512);
+      }
+    }
+
+    await fsp.rename(part, dest);
+    return result;
+  }
+
+  /**
+   * Send a GET request and follow redirects.
+   * @returns The response, with a status of 200, 206 or 416.
+   */
+  private async request(url: string, headers: Record<string, string>): Promise<http.IncomingMessage> {
+    let current = url;
+    for (let redirects = 0; ; redirects++) {
+      const res = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        const target = new URL(current);
+        const client = target.protocol === "https:" ? https : target.protocol === "http:" ? http : null;
+        if (!client) {
+          return reject(new Downloader.HttpError(current, 0, `Unsupported protocol ${target.protocol}`, false));
+        }
+        const req = client.get(target, { headers: { ...this.headers, ...headers } }, resolve);
+        req.setTimeout(this.timeout, () => {
+          req.destroy(new Error(`Request to ${current} timed out`));
+        });
+        req.on("error", reject);
+      });
+
+      const status = res.statusCode ?? 0;
+      if ([301, 302, 303, 307, 308].includes(status) && res.headers.location) {
+        res.resume();
+        if (redirects >= this.maxRedirects) {
+          throw new Downloader.HttpError(url, status, "Too many redirects", false);
+        }
+        current = new URL(res.headers.location, current).toString();
+        continue;
+      }
+      if (status === 200 || status === 206 || status === 416) {
+        return res;
+      }
+
+      res.resume();
+      const retryable = status === 408 || status === 429 || status >= 500;
+      throw new Downloader.HttpError(current, status, res.statusMessage ?? "", retryable);
+    }
+  }
+}
+
+export interface Downloader {
+  // A download attempt started
+  emit(event: "start", info: Downloader.StartInfo): boolean;
+  on(event: "start", listener: (info: Downloader.StartInfo) => void): this;
+  once(event: "start", listener: (info: Downloader.StartInfo) => void): this;
+  off(event: "start", listener: (info: Downloader.StartInfo) => void): this;
+
+  // Data received
+  emit(event: "progress", progress: Downloader.Progress): boolean;
+  on(event: "progress", listener: (progress: Downloader.Progress) => void): this;
+  once(event: "progress", listener: (progress: Downloader.Progress) => void): this;
+  off(event: "progress", listener: (progress: Downloader.Progress) => void): this;
+
+  // An attempt failed and will be retried after the delay
+  emit(event: "retry", error: Error, attempt: number, delay: number): boolean;
+  on(event: "retry", listener: (error: Error, attempt: number, delay: number) => void): this;
+  once(event: "retry", listener: (error: Error, attempt: number, delay: number) => void): this;
+  off(event: "retry", listener: (error: Error, attempt: number, delay: number) => void): this;
+
+  // Download finished and verified
+  emit(event: "complete", result: Downloader.Result): boolean;
+  on(event: "complete", listener: (result: Downloader.Result) => void): this;
+  once(event: "complete", listener: (result: Downloader.Result) => void): this;
+  off(event: "complete", listener: (result: Downloader.Result) => void): this;
+}
+
+export namespace Downloader {
+  export interface Options {
+    /**
+     * Number of times a failed download is retried. Default is 3.
+     */
+    retries?: number;
+    /**
+     * Delay in milliseconds before the first retry. Default is 1000.
+     */
+    retryDelay?: number;
+    /**
+     * Maximum number of redirects to follow. Default is 10.
+     */
+    maxRedirects?: number;
+    /**
+     * Time in milliseconds without receiving data before a request is aborted. Default is 30000.
+     */
+    timeout?: number;
+    /**
+     * Minimum time in milliseconds between `progress` events. Default is 250.
+     */
+    progressInterval?: number;
+    headers?: Record<string, string>;
+  }
+
+  export interface DownloadOptions {
+    /**
+     * Expected SHA-1 checksum in hex.
+     */
+    sha1?: string;
+    /**
+     * Expected SHA-256 checksum in hex.
+     */
+    sha256?: string;
+    /**
+     * Expected SHA-512 checksum in hex.
+     */
+    sha512?: string;
+    /**
+     * Expected size in bytes. Used as the total when the server doesn't send a length.
+     */
+    size?: number;
+  }
+
+  export interface StartInfo {
+    url: string;
+    dest: string;
+    /**
+     * Attempt number, starting at 1.
+     */
+    attempt: number;
+  }
+
+  export interface Progress {
+    url: string;
+    dest: string;
+    /**
+     * Bytes downloaded so far, including data resumed from an earlier attempt.
+     */
+    bytes: number;
+    /**
+     * Total size in bytes. Undefined if unknown.
+     */
+    total?: number;
+    /**
+     * Bytes per second during this attempt.
+     */
+    speed: number;
+    /**
+     * Estimated seconds remaining. Undefined if the total is unknown.
+     */
+    eta?: number;
+    percent?: number;
+  }
+
+  export interface Result {
+    url: string;
+    path: string;
+    size: number;
+    sha1?: string;
+    sha256?: string;
+    sha512?: string;
+  }
+
+  export class HttpError extends Error {
+    constructor(public url: string, public status: number, statusText: string, public retryable: boolean) {
+      super(`Failed to download ${url}: ${status} ${statusText}`.trim());
+      this.name = "HttpError";
+    }
+  }
+
+  export class ChecksumError extends Error {
+    constructor(public url: string, public algorithm: "sha1" | "sha256" | "sha512", public expected: string, public actual: string) {
+      super(`Checksum mismatch for ${url}: expected ${algorithm} ${expected}, got ${actual}`);
+      this.name = "ChecksumError";
+    }
+  }
+
+  /**
+   * Download a file with a default downloader.
+   */
+  export async function download(url: string, dest: string, opts?: DownloadOptions): Promise<Result> {
+    return await new Downloader().download(url, dest, opts);
+  }
+}
+
+export default Downloader;
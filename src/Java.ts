@@ -0,0 +1,207 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import os from "node:os";
+import { execFile } from "node:child_process";
+import MinecraftApi from "./MinecraftApi";
+
+/**
+ * Discovery and inspection of installed Java runtimes.
+ */
+export namespace Java {
+  export interface Runtime {
+    /**
+     * Path to the java executable.
+     */
+    path: string;
+    /**
+     * Full version, such as `21.0.2` or `1.8.0_392`.
+     */
+    version: string;
+    /**
+     * Major version, such as 21 or 8.
+     */
+    majorVersion: number;
+    /**
+     * Vendor of the runtime, such as `Eclipse Adoptium`. Undefined if it couldn't be determined.
+     */
+    vendor?: string;
+    /**
+     * Architecture the runtime is built for, such as `amd64` or `aarch64`. Undefined if it couldn't be determined.
+     */
+    arch?: string;
+  }
+
+  export interface FindOptions {
+    /**
+     * Runtimes to choose from. Default is the result of `discover()`.
+     */
+    runtimes?: Runtime[];
+  }
+
+  const inspected = new Map<string, Promise<Runtime | null>>();
+
+  /**
+   * Parse the output of `java -XshowSettings:properties -version`. The plain `java -version` banner is also understood.
+   * @returns The runtime info, or null if no version was found.
+   */
+  export function parseVersionOutput(output: string): Omit<Runtime, "path"> | null {
+    const properties: Record<string, string> = {};
+    for (const line of output.split(/\r?\n/)) {
+      const match = line.match(/^\s+([\w.]+) = (.*)$/);
+      if (match) properties[match[1]] = match[2].trim();
+    }
+
+    // openjdk version "21.0.2" 2024-01-16 LTS
+    // java version "1.8.0_392"
+    const banner = output.match(/^(\S+) version "([^"]+)"/m);
+    const version = properties["java.version"] ?? banner?.[2];
+    if (!version) return null;
+
+    return {
+      version,
+      majorVersion: getMajorVersion(version),
+      vendor: properties["java.vendor"] ?? getVendorFromBanner(output),
+      arch: properties["os.arch"] ?? (/64-Bit/i.test(output) ? "64-bit" : undefined)
+    };
+  }
+
+  /**
+   * Get the major version of a Java version string. Versions before 9 are written as `1.8.0`.
+   */
+  export function getMajorVersion(version: string): number {
+    const [first, second] = version.split(/[.+_-]/).map(part => parseInt(part));
+    return first === 1 && second ? second : first;
+  }
+
+  function getVendorFromBanner(output: string): string | undefined {
+    const vendors: [RegExp, string][] = [
+      [/Temurin|AdoptOpenJDK/, "Eclipse Adoptium"],
+      [/Zulu/, "Azul Systems, Inc."],
+      [/Corretto/, "Amazon.com Inc."],
+      [/Microsoft/, "Microsoft"],
+      [/GraalVM/, "GraalVM Community"],
+      [/Red_Hat|Red Hat/, "Red Hat, Inc."],
+      [/Java\(TM\)/, "Oracle Corporation"],
+    ];
+    return vendors.find(([pattern]) => pattern.test(output))?.[1];
+  }
+
+  /**
+   * Run a java executable and read its version. Results are cached per path.
+   * @returns The runtime, or null if the path isn't a working java executable.
+   */
+  export function inspect(javaPath: string): Promise<Runtime | null> {
+    let result = inspected.get(javaPath);
+    if (!result) {
+      result = new Promise<Runtime | null>((resolve) => {
+        execFile(javaPath, ["-XshowSettings:properties", "-version"], { timeout: 10000 }, (error, stdout, stderr) => {
+          // The version is written to stderr, and nothing at all if the executable couldn't run
+          const info = parseVersionOutput(`${stderr}\n${stdout}`);
+          resolve(info ? { path: javaPath, ...info } : null);
+        });
+      });
+      inspected.set(javaPath, result);
+    }
+    return result;
+  }
+
+  /**
+   * Get the paths that may contain a java executable: every directory in PATH, JAVA_HOME and the usual JDK install directories of the platform.
+   */
+  export async function getCandidatePaths(): Promise<string[]> {
+    const executable = os.platform() === "win32" ? "java.exe" : "java";
+    const home = os.homedir();
+    const paths: string[] = [];
+
+    if (process.env.JAVA_HOME) {
+      paths.push(Path.join(process.env.JAVA_HOME, "bin", executable));
+    }
+    for (const dir of (process.env.PATH ?? "").split(Path.delimiter).filter(Boolean)) {
+      paths.push(Path.join(dir, executable));
+    }
+
+    let roots: string[];
+    let suffix = "";
+    switch (os.platform()) {
+      case "win32": {
+        const programFiles = [process.env["ProgramFiles"], process.env["ProgramFiles(x86)"]].filter(Boolean) as string[];
+        roots = programFiles.flatMap(dir => ["Java", "Eclipse Adoptium", "Microsoft", "Zulu", "Amazon Corretto", "BellSoft"].map(vendor => Path.join(dir, vendor)));
+        break;
+      }
+      case "darwin":
+        roots = ["/Library/Java/JavaVirtualMachines", Path.join(home, "Library/Java/JavaVirtualMachines")];
+        suffix = "Contents/Home";
+        break;
+      default:
+        roots = ["/usr/lib/jvm", "/usr/lib64/jvm", "/usr/java", "/usr/local/java", "/opt/java", "/opt/jdk"];
+        break;
+    }
+    roots.push(Path.join(home, ".sdkman", "candidates", "java"), Path.join(home, ".jdks"));
+
+    for (const root of roots) {
+      const entries = await fsp.readdir(root).catch(() => [] as string[]);
+      for (const entry of entries) {
+        paths.push(Path.join(root, entry, suffix, "bin", executable));
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Find every working Java runtime on the system. Paths that lead to the same executable are only listed once.
+   * @returns The runtimes, newest major version first.
+   */
+  export async function discover(): Promise<Runtime[]> {
+    const seen = new Set<string>();
+    const runtimes: Runtime[] = [];
+    for (const candidate of await getCandidatePaths()) {
+      const real = await fsp.realpath(candidate).catch(() => null);
+      if (!real || seen.has(real)) continue;
+      seen.add(real);
+
+      const runtime = await inspect(candidate);
+      if (runtime) runtimes.push(runtime);
+    }
+    return runtimes.sort((a, b) => b.majorVersion - a.majorVersion);
+  }
+
+  /**
+   * Pick a runtime for a required major version. An exact match is preferred, then the oldest newer runtime.
+   * @param majorVersion Minimum major version. Picks the newest runtime if undefined.
+   * @returns The runtime, or null if none is compatible.
+   */
+  export async function findRuntime(majorVersion?: number, opts?: FindOptions): Promise<Runtime | null> {
+    const runtimes = opts?.runtimes ?? await discover();
+    if (majorVersion === undefined) return runtimes[0] ?? null;
+
+    const compatible = runtimes.filter(r => r.majorVersion >= majorVersion);
+    return compatible.find(r => r.majorVersion === majorVersion)
+      ?? compatible.sort((a, b) => a.majorVersion - b.majorVersion)[0]
+      ?? null;
+  }
+
+  /**
+   * Get the Java major version a Minecraft version requires, as listed in its version JSON.
+   * Old version JSONs don't list it, those all run on Java 8.
+   */
+  export function getRequiredVersion(versionData: MinecraftApi.VersionData): number {
+    return versionData.javaVersion?.majorVersion ?? 8;
+  }
+
+  /**
+   * Estimate the Java major version a Minecraft release requires without looking up its version JSON.
+   * @returns The major version, or undefined if the version isn't a release number.
+   */
+  export function estimateRequiredVersion(minecraftVersion: string): number | undefined {
+    const match = minecraftVersion.match(/^1\.(\d+)(?:\.(\d+))?$/);
+    if (!match) return undefined;
+    const minor = parseInt(match[1]);
+    const patch = parseInt(match[2] ?? "0");
+    if (minor > 20 || (minor === 20 && patch >= 5)) return 21;
+    if (minor >= 18) return 17;
+    if (minor === 17) return 16;
+    return 8;
+  }
+}
+
+export default Java;
@@ -0,0 +1,124 @@
+/**
+ * Describes how the JVM of a server is launched, on top of the memory settings of the server.
+ */
+export interface LaunchProfile {
+  /**
+   * Name of a preset in `LaunchProfile.presets` whose flags are added before `jvmArgs`.
+   */
+  preset?: string;
+  /**
+   * Extra JVM flags, such as `-XX:+UseZGC`.
+   */
+  jvmArgs?: string[];
+  /**
+   * System properties passed as `-Dkey=value`.
+   */
+  systemProperties?: Record<string, string | number | boolean>;
+  /**
+   * Extra arguments passed to the server after `--nogui`.
+   */
+  serverArgs?: string[];
+  /**
+   * Environment variables added to the environment of the process. Variables set to undefined are removed.
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * Working directory of the process, relative to the server directory. Default is the server directory.
+   * Forge servers need the server directory, since their argument files use relative paths.
+   */
+  cwd?: string;
+}
+
+export namespace LaunchProfile {
+  /**
+   * Returns the JVM flags of a preset for the maximum heap size in MB.
+   */
+  export type Preset = (maxMemory: number) => string[];
+
+  /**
+   * Built-in presets. Add to this to register your own.
+   */
+  export const presets: Record<string, Preset> = {
+    /**
+     * Aikar's G1 garbage collector flags, recommended by PaperMC. Heaps over 12 GB get the adjusted values.
+     */
+    aikar: (maxMemory) => {
+      const large = maxMemory > 12 * 1024;
+      return [
+        "-XX:+UseG1GC",
+        "-XX:+ParallelRefProcEnabled",
+        "-XX:MaxGCPauseMillis=200",
+        "-XX:+UnlockExperimentalVMOptions",
+        "-XX:+DisableExplicitGC",
+        "-XX:+AlwaysPreTouch",
+        `-XX:G1NewSizePercent=${large ? 40 : 30}`,
+        `-XX:G1MaxNewSizePercent=${large ? 50 : 40}`,
+        `-XX:G1HeapRegionSize=${large ? "16M" : "8M"}`,
+        `-XX:G1ReservePercent=${large ? 15 : 20}`,
+        "-XX:G1HeapWastePercent=5",
+        "-XX:G1MixedGCCountTarget=4",
+        `-XX:InitiatingHeapOccupancyPercent=${large ? 20 : 15}`,
+        "-XX:G1MixedGCLiveThresholdPercent=90",
+        "-XX:G1RSetUpdatingPauseTimePercent=5",
+        "-XX:SurvivorRatio=32",
+        "-XX:+PerfDisableSharedMem",
+        "-XX:MaxTenuringThreshold=1",
+        "-Dusing.aikars.flags=https://mcflags.emc.gs",
+        "-Daikars.new.flags=true",
+      ];
+    },
+  };
+
+  /**
+   * Render the JVM arguments of a profile: memory, preset flags, extra flags and system properties, in that order.
+   * @param memory Minimum and maximum heap size in MB.
+   * @throws Error if the preset doesn't exist.
+   */
+  export function renderJvmArgs(profile: LaunchProfile, memory: [number, number]): string[] {
+    const args = [`-Xms${memory[0]}M`, `-Xmx${memory[1]}M`];
+    if (profile.preset) {
+      const preset = presets[profile.preset];
+      if (!preset) throw new Error(`Unknown launch preset ${profile.preset}.`);
+      args.push(...preset(memory[1]));
+    }
+    args.push(...profile.jvmArgs ?? []);
+    for (const key in profile.systemProperties) {
+      args.push(`-D${key}=${profile.systemProperties[key]}`);
+    }
+    return args;
+  }
+
+  /**
+   * Render the environment of a profile on top of a base environment.
+   */
+  export function renderEnv(profile: LaunchProfile, base: NodeJS.ProcessEnv = process.env): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const key in base) {
+      if (base[key] !== undefined) env[key] = base[key]!;
+    }
+    for (const key in profile.env) {
+      const value = profile.env[key];
+      if (value === undefined) delete env[key];
+      else env[key] = value;
+    }
+    return env;
+  }
+
+  /**
+   * Merge profiles. Lists are concatenated and maps are merged, with later profiles taking precedence.
+   */
+  export function merge(...profiles: LaunchProfile[]): LaunchProfile {
+    const result: LaunchProfile = {};
+    for (const profile of profiles) {
+      if (profile.preset !== undefined) result.preset = profile.preset;
+      if (profile.cwd !== undefined) result.cwd = profile.cwd;
+      if (profile.jvmArgs) result.jvmArgs = [...result.jvmArgs ?? [], ...profile.jvmArgs];
+      if (profile.serverArgs) result.serverArgs = [...result.serverArgs ?? [], ...profile.serverArgs];
+      if (profile.systemProperties) result.systemProperties = { ...result.systemProperties, ...profile.systemProperties };
+      if (profile.env) result.env = { ...result.env, ...profile.env };
+    }
+    return result;
+  }
+}
+
+export default LaunchProfile;
@@ -0,0 +1,368 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import zlib from "node:zlib";
+import crypto from "node:crypto";
+import EventEmitter from "node:events";
+import type Server from "./objects/Server";
+
+/**
+ * Stores console output of a server. The most recent entries are kept in a ring buffer,
+ * and every entry is written to rotating JSON lines files when a directory is set.
+ *
+ * Failed background writes are emitted as `error` events and retried on the next flush.
+ * At most `bufferSize` entries wait to be written, older ones are dropped and counted in `dropped`.
+ */
+export class LogStore extends EventEmitter {
+  public options: LogStore.ResolvedOptions;
+
+  /**
+   * Id of the current server session. Entries appended without a session get this one.
+   */
+  public session?: string;
+
+  /**
+   * Number of entries that were never written to disk, because writing kept failing.
+   */
+  public dropped = 0;
+
+  private buffer: LogStore.Entry[] = [];
+  private pending: LogStore.Entry[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private flushScheduled = false;
+
+  constructor(opts?: LogStore.Options) {
+    super();
+    this.options = {
+      bufferSize: 1000,
+      directory: null,
+      maxFileSize: 10 * 1024 * 1024,
+      maxFiles: 10,
+      ...opts
+    };
+  }
+
+  /**
+   * Start a new session, such as when the server starts.
+   * @returns The id of the session.
+   */
+  public startSession(id?: string): string {
+    return this.session = id ?? crypto.randomUUID();
+  }
+
+  /**
+   * Add a line of output. It is written to disk in the background, use `flush` to wait for it.
+   * @param date Time the line was received. Default is now.
+   */
+  public append(data: Server.ParsedData, date: Date = new Date(), session: string | undefined = this.session): LogStore.Entry {
+    const entry: LogStore.Entry = { ...data, date, session, level: data.type };
+    this.buffer.push(entry);
+    if (this.buffer.length > this.options.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.options.bufferSize);
+    }
+
+    if (this.options.directory) {
+      this.pending.push(entry);
+      this.trimPending();
+      if (!this.flushScheduled) {
+        this.flushScheduled = true;
+        setImmediate(() => {
+          // The entries are retried on the next flush. Without a listener, emitting "error" would throw
+          this.flush().catch((error: unknown) => {
+            if (this.listenerCount("error") > 0) this.emit("error", error instanceof Error ? error : new Error(String(error)));
+          });
+        });
+      }
+    }
+    return entry;
+  }
+
+  /**
+   * The entries in the ring buffer, oldest first.
+   */
+  public getRecent(count?: number): LogStore.Entry[] {
+    return count === undefined ? [...this.buffer] : this.buffer.slice(-count);
+  }
+
+  /**
+   * Empty the ring buffer. Stored files are kept.
+   */
+  public clearBuffer() {
+    this.buffer = [];
+  }
+
+  /**
+   * Write pending entries to disk.
+   */
+  public flush(): Promise<void> {
+    this.flushScheduled = false;
+    return this.writing = this.writing.catch(() => { }).then(async () => {
+      const directory = this.options.directory;
+      if (!directory || this.pending.length === 0) return;
+      const entries = this.pending;
+      this.pending = [];
+
+      try {
+        await fsp.mkdir(directory, { recursive: true });
+        const current = this.getFilePath(0);
+        const size = await fsp.stat(current).then(s => s.size).catch(() => 0);
+        if (size >= this.options.maxFileSize) {
+          await this.rotate();
+        }
+        await fsp.appendFile(current, entries.map(e => LogStore.serialize(e)).join(""));
+      }
+      catch (error) {
+        this.pending.unshift(...entries);
+        this.trimPending();
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Drop the oldest pending entries beyond `bufferSize`, so a disk that stays unwritable doesn't fill the memory.
+   */
+  private trimPending() {
+    const overflow = this.pending.length - this.options.bufferSize;
+    if (overflow > 0) {
+      this.pending.splice(0, overflow);
+      this.dropped += overflow;
+    }
+  }
+
+  /**
+   * Path of a stored file. Index 0 is the file being written to, higher indexes are older.
+   */
+  public getFilePath(index: number) {
+    return Path.join(this.options.directory!, index === 0 ? "console.jsonl" : `console.${index}.jsonl`);
+  }
+
+  private async rotate() {
+    const { maxFiles } = this.options;
+    await fsp.rm(this.getFilePath(maxFiles - 1), { force: true });
+    for (let i = maxFiles - 2; i >= 0; i--) {
+      await fsp.rename(this.getFilePath(i), this.getFilePath(i + 1)).catch(() => { });
+    }
+  }
+
+  /**
+   * Find entries. Searches the stored files if a directory is set, otherwise the ring buffer.
+   * @returns Matching entries, oldest first.
+   */
+  public async query(query?: LogStore.Query): Promise<LogStore.Entry[]> {
+    query ??= {};
+    let entries: LogStore.Entry[];
+    if (this.options.directory) {
+      await this.flush();
+      entries = [];
+      for (let i = this.options.maxFiles - 1; i >= 0; i--) {
+        const data = await fsp.readFile(this.getFilePath(i), "utf-8").catch(() => null);
+        if (data) entries.push(...LogStore.deserialize(data));
+      }
+    }
+    else {
+      entries = this.buffer;
+    }
+
+    const result = entries.filter(entry => LogStore.matches(entry, query!));
+    return query.limit !== undefined ? result.slice(-query.limit) : result;
+  }
+
+  /**
+   * Check whether an entry matches a query. The limit is ignored.
+   */
+  public static matches(entry: LogStore.Entry, query: LogStore.Query): boolean {
+    if (query.from && entry.date < query.from) return false;
+    if (query.to && entry.date > query.to) return false;
+    if (query.session && entry.session !== query.session) return false;
+    if (query.level) {
+      const levels = Array.isArray(query.level) ? query.level : [query.level];
+      if (!entry.level || !levels.includes(entry.level)) return false;
+    }
+    if (query.thread) {
+      const thread = entry.thread ?? "";
+      if (typeof query.thread === "string" ? thread !== query.thread : !query.thread.test(thread)) return false;
+    }
+    if (query.pattern && !query.pattern.test(entry.message)) return false;
+    if (query.player) {
+      const name = query.player.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      if (!new RegExp(`(^|[^\\w])${name}([^\\w]|$)`).test(entry.message)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Add entries that were read from elsewhere, such as with `LogStore.readLogFile`. They are written as they are and not added to the ring buffer.
+   */
+  public async import(entries: LogStore.Entry[]) {
+    if (!this.options.directory) {
+      throw new Error("Cannot import entries into a log store without a directory.");
+    }
+    this.pending.push(...entries);
+    await this.flush();
+  }
+
+  public static serialize(entry: LogStore.Entry): string {
+    return JSON.stringify({ ...entry, date: entry.date.toISOString() }) + "\n";
+  }
+
+  public static deserialize(data: string): LogStore.Entry[] {
+    return data.split("\n").filter(Boolean).map(line => {
+      const entry = JSON.parse(line);
+      entry.date = new Date(entry.date);
+      return entry;
+    });
+  }
+
+  /**
+   * Read a server log file, either `latest.log` or a gzipped archive such as `2024-01-31-1.log.gz`.
+   *
+   * Lines only have a time of day, so the date comes from the file: the name of an archive, or the modification time of `latest.log`.
+   * That date is used for the last line, and earlier lines are moved a day back every time the time of day jumps backwards.
+   * Lines that don't parse with a time, such as stack traces, get the date of the line before them.
+   * @param parse Parser for the log format of the server, such as `Server.parseData`.
+   * @param session Session id of the entries. Default is the file name without extension.
+   */
+  public static async readLogFile(path: string, parse: (data: string) => Server.ParsedData, session?: string): Promise<LogStore.Entry[]> {
+    const name = Path.basename(path);
+    const gzipped = name.endsWith(".gz");
+    const raw = await fsp.readFile(path);
+    const text = (gzipped ? zlib.gunzipSync(raw) : raw).toString("utf-8");
+    session ??= name.replace(/\.log(\.gz)?$/, "");
+
+    let end: Date;
+    const nameDate = name.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (nameDate) {
+      end = new Date(+nameDate[1], +nameDate[2] - 1, +nameDate[3]);
+    }
+    else {
+      const mtime = (await fsp.stat(path)).mtime;
+      end = new Date(mtime.getFullYear(), mtime.getMonth(), mtime.getDate());
+    }
+
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== "").map(line => parse(line));
+    const toSeconds = (time: string) => {
+      const [h, m, s] = time.split(":").map(Number);
+      return h * 3600 + m * 60 + s;
+    };
+
+    // Walk backwards from the end date, stepping back a day when the time of day increases
+    const entries: LogStore.Entry[] = [];
+    let day = end;
+    let next: number | null = null;
+    let lastDate: Date | null = null;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const data = lines[i];
+      let date: Date;
+      if (data.time && /^\d+:\d+:\d+$/.test(data.time)) {
+        const seconds = toSeconds(data.time);
+        if (next !== null && seconds > next) {
+          day = new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+        }
+        next = seconds;
+        date = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, 0, seconds);
+        lastDate = date;
+      }
+      else {
+        date = lastDate ?? day;
+      }
+      entries.push({ ...data, date, session, level: data.type });
+    }
+    entries.reverse();
+
+    // Continuation lines take the date of the line before them, which is only known after the walk
+    for (let i = 1; i < entries.length; i++) {
+      if (!entries[i].time) entries[i].date = entries[i - 1].date;
+    }
+    return entries;
+  }
+
+  /**
+   * Read `logs/latest.log` and every `logs/*.log.gz` archive of a server, oldest first.
+   */
+  public static async readServerLogs(serverPath: string, parse: (data: string) => Server.ParsedData): Promise<LogStore.Entry[]> {
+    const logs = Path.join(serverPath, "logs");
+    const files = await fsp.readdir(logs).catch(() => [] as string[]);
+    const archives = files.filter(f => /\.log\.gz$/.test(f)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    if (files.includes("latest.log")) archives.push("latest.log");
+
+    const entries: LogStore.Entry[] = [];
+    for (const file of archives) {
+      entries.push(...await LogStore.readLogFile(Path.join(logs, file), parse));
+    }
+    return entries;
+  }
+}
+
+export interface LogStore {
+  // Writing entries to disk failed
+  emit(event: "error", error: Error): boolean;
+  on(event: "error", listener: (error: Error) => void): this;
+  once(event: "error", listener: (error: Error) => void): this;
+  off(event: "error", listener: (error: Error) => void): this;
+}
+
+export namespace LogStore {
+  export interface Entry extends Server.ParsedData {
+    /**
+     * Full date and time of the line.
+     */
+    date: Date;
+    /**
+     * Id of the server session the line belongs to.
+     */
+    session?: string;
+    /**
+     * Log level, such as `INFO` or `WARN`. Same as `type`.
+     */
+    level?: string;
+  }
+
+  export interface Options {
+    /**
+     * Number of entries kept in memory. Default is 1000.
+     */
+    bufferSize?: number;
+    /**
+     * Directory to store entries in. Entries are only kept in memory if null. Default is null.
+     */
+    directory?: string | null;
+    /**
+     * Size in bytes a file may reach before it is rotated. Default is 10 MB.
+     */
+    maxFileSize?: number;
+    /**
+     * Number of files to keep, including the one being written to. Default is 10.
+     */
+    maxFiles?: number;
+  }
+
+  export type ResolvedOptions = Required<Options>;
+
+  export interface Query {
+    from?: Date;
+    to?: Date;
+    /**
+     * Level or levels to include.
+     */
+    level?: string | string[];
+    /**
+     * Exact thread name, or a pattern it must match.
+     */
+    thread?: string | RegExp;
+    /**
+     * Pattern the message must match.
+     */
+    pattern?: RegExp;
+    /**
+     * Name of a player that must be mentioned in the message.
+     */
+    player?: string;
+    session?: string;
+    /**
+     * Maximum number of entries to return. The newest are kept.
+     */
+    limit?: number;
+  }
+}
+
+export default LogStore;
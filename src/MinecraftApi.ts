@@ -1,3 +1,8 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import os from "node:os";
+import crypto from "node:crypto";
+
 export namespace MinecraftApi {
   export interface VersionManifest {
     latest: {
@@ -24,34 +29,325 @@ export namespace MinecraftApi {
         size: number;
       };
     };
+    /**
+     * Java runtime the version requires. Missing from versions older than 1.17, which run on Java 8.
+     */
+    javaVersion?: {
+      component: string;
+      majorVersion: number;
+    };
+  }
+
+  export interface FabricLoaderVersion {
+    separator: string;
+    build: number;
+    maven: string;
+    version: string;
+    stable: boolean;
+  }
+
+  export interface FabricInstallerVersion {
+    url: string;
+    maven: string;
+    version: string;
+    stable: boolean;
+  }
+
+  /**
+   * Base URL of the Fabric meta API. Change this to use a mirror or a local stand-in.
+   */
+  export let fabricMetaUrl = "https://meta.fabricmc.net";
+
+  export interface PaperBuild {
+    build: number;
+    time: string;
+    channel: string;
+    downloads: {
+      application: {
+        name: string;
+        sha256: string;
+      };
+      [key: string]: {
+        name: string;
+        sha256: string;
+      };
+    };
+  }
+
+  /**
+   * Base URL of the PaperMC downloads API. Change this to use a mirror or a local stand-in.
+   */
+  export let paperApiUrl = "https://api.papermc.io";
+
+  export interface Profile {
+    /**
+     * UUID of the player, without dashes.
+     */
+    id: string;
+    name: string;
+  }
+
+  /**
+   * URL of the endpoint that resolves player names to profiles. Change this to use a mirror or a local stand-in.
+   */
+  export let profileUrl = "https://api.mojang.com/users/profiles/minecraft";
+
+  /**
+   * Fetches the profile of an online mode player by name.
+   * @param url URL of the profile endpoint. Default is `profileUrl`.
+   * @returns The profile, or null if no player has that name.
+   */
+  export async function getProfile(name: string, url: string = profileUrl): Promise<Profile | null> {
+    const response = await fetch(`${url}/${encodeURIComponent(name)}`);
+    if (response.status === 204 || response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to fetch profile of ${name}: ${response.statusText}`);
+    }
+    return await response.json();
+  }
+
+  /**
+   * URL of the Minecraft version manifest. Change this to use a mirror or a local stand-in.
+   */
+  export let versionManifestUrl = "https://launchermeta.mojang.com/mc/game/version_manifest.json";
+
+  /**
+   * Base URL of the Forge files site the version index is read from. Change this to use a mirror or a local stand-in.
+   */
+  export let forgeFilesUrl = "https://files.minecraftforge.net";
+
+  /**
+   * Base URL of the Forge Maven repository installers are downloaded from. Change this to use a mirror or a local stand-in.
+   */
+  export let forgeMavenUrl = "https://maven.minecraftforge.net";
+
+  /**
+   * Base URL of the NeoForge Maven repository versions are listed from and installers are downloaded from. Change this to use a mirror or a local stand-in.
+   */
+  export let neoforgeMavenUrl = "https://maven.neoforged.net/releases";
+
+  /**
+   * Base URL of the CurseForge website API mod files are looked up in. Change this to use a mirror or a local stand-in.
+   */
+  export let curseforgeApiUrl = "https://www.curseforge.com/api/v1";
+
+  /**
+   * Base URL of the CurseForge CDN mod files are downloaded from. Change this to use a mirror or a local stand-in.
+   */
+  export let curseforgeCdnUrl = "https://mediafilez.forgecdn.net";
+
+  /**
+   * Base URL of the Modrinth API. Change this to use a mirror or a local stand-in.
+   */
+  export let modrinthApiUrl = "https://api.modrinth.com";
+
+  export interface Endpoints {
+    versionManifest: string;
+    forgeFiles: string;
+    forgeMaven: string;
+    neoforgeMaven: string;
+    fabricMeta: string;
+    paperApi: string;
+    profile: string;
+    curseforgeApi: string;
+    curseforgeCdn: string;
+    modrinthApi: string;
+  }
+
+  /**
+   * Get the endpoints currently in use.
+   */
+  export function getEndpoints(): Endpoints {
+    return {
+      versionManifest: versionManifestUrl,
+      forgeFiles: forgeFilesUrl,
+      forgeMaven: forgeMavenUrl,
+      neoforgeMaven: neoforgeMavenUrl,
+      fabricMeta: fabricMetaUrl,
+      paperApi: paperApiUrl,
+      profile: profileUrl,
+      curseforgeApi: curseforgeApiUrl,
+      curseforgeCdn: curseforgeCdnUrl,
+      modrinthApi: modrinthApiUrl
+    };
+  }
+
+  /**
+   * Change the endpoints used by every call. Endpoints that aren't set are left as they are.
+   */
+  export function setEndpoints(endpoints: Partial<Endpoints>) {
+    versionManifestUrl = endpoints.versionManifest ?? versionManifestUrl;
+    forgeFilesUrl = endpoints.forgeFiles ?? forgeFilesUrl;
+    forgeMavenUrl = endpoints.forgeMaven ?? forgeMavenUrl;
+    neoforgeMavenUrl = endpoints.neoforgeMaven ?? neoforgeMavenUrl;
+    fabricMetaUrl = endpoints.fabricMeta ?? fabricMetaUrl;
+    paperApiUrl = endpoints.paperApi ?? paperApiUrl;
+    profileUrl = endpoints.profile ?? profileUrl;
+    curseforgeApiUrl = endpoints.curseforgeApi ?? curseforgeApiUrl;
+    curseforgeCdnUrl = endpoints.curseforgeCdn ?? curseforgeCdnUrl;
+    modrinthApiUrl = endpoints.modrinthApi ?? modrinthApiUrl;
+  }
+
+  /**
+   * Directory metadata responses are cached in. Set to null to disable the cache. Default is `.ionmc/cache` in the home directory.
+   */
+  export let cacheDirectory: string | null = Path.join(os.homedir(), ".ionmc", "cache");
+
+  /**
+   * Time in milliseconds a cached response is used before it is revalidated. Default is 10 minutes.
+   */
+  export let cacheTtl = 10 * 60 * 1000;
+
+  /**
+   * Only serve metadata from the cache and never touch the network. Calls for anything that isn't cached fail.
+   */
+  export let offline = false;
+
+  export function setCacheDirectory(directory: string | null) {
+    cacheDirectory = directory;
+  }
+
+  export function setCacheTtl(ttl: number) {
+    cacheTtl = ttl;
+  }
+
+  export function setOffline(enabled: boolean) {
+    offline = enabled;
+  }
+
+  /**
+   * Options for a single call. Anything not set uses the global setting.
+   */
+  export interface RequestOptions {
+    endpoints?: Partial<Endpoints>;
+    cacheDirectory?: string | null;
+    cacheTtl?: number;
+    offline?: boolean;
+  }
+
+  /**
+   * Thrown when a server responds with an error status.
+   */
+  export class FetchError extends Error {
+    constructor(public status: number, message: string) {
+      super(message);
+      this.name = "FetchError";
+    }
+  }
+
+  interface CacheEntry {
+    url: string;
+    etag?: string;
+    lastModified?: string;
+    fetchedAt: number;
+  }
+
+  /**
+   * Fetch a metadata document through the cache.
+   * Fresh entries are served without a request, stale ones are revalidated with their ETag and served as they are if the network fails.
+   * @throws FetchError if the server responds with an error status.
+   * @throws Error if the document can't be fetched, or isn't cached in offline mode.
+   */
+  export async function fetchCached(url: string, opts?: RequestOptions): Promise<string> {
+    opts ??= {};
+    const directory = opts.cacheDirectory === undefined ? cacheDirectory : opts.cacheDirectory;
+    const ttl = opts.cacheTtl ?? cacheTtl;
+    const isOffline = opts.offline ?? offline;
+
+    if (!directory) {
+      if (isOffline) throw new Error(`Cannot fetch ${url} in offline mode without a cache directory`);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new FetchError(response.status, `Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+      return await response.text();
+    }
+
+    const key = crypto.createHash("sha1").update(url).digest("hex");
+    const metaPath = Path.join(directory, `${key}.json`);
+    const bodyPath = Path.join(directory, `${key}.body`);
+    const entry: CacheEntry | null = await fsp.readFile(metaPath, "utf-8").then(JSON.parse).catch(() => null);
+    const body = entry ? await fsp.readFile(bodyPath, "utf-8").catch(() => null) : null;
+    const cached = entry && body !== null ? { entry, body } : null;
+
+    if (isOffline) {
+      if (!cached) throw new Error(`${url} is not cached and offline mode is enabled`);
+      return cached.body;
+    }
+    if (cached && Date.now() - cached.entry.fetchedAt < ttl) {
+      return cached.body;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.entry.etag) headers["If-None-Match"] = cached.entry.etag;
+    if (cached?.entry.lastModified) headers["If-Modified-Since"] = cached.entry.lastModified;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers });
+    }
+    catch (error) {
+      if (cached) return cached.body;
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      await writeCacheEntry(metaPath, { ...cached.entry, fetchedAt: Date.now() });
+      return cached.body;
+    }
+    if (!response.ok) {
+      if (cached && response.status >= 500) return cached.body;
+      throw new FetchError(response.status, `Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    await fsp.mkdir(directory, { recursive: true });
+    await fsp.writeFile(bodyPath, text);
+    await writeCacheEntry(metaPath, {
+      url,
+      etag: response.headers.get("etag") ?? undefined,
+      lastModified: response.headers.get("last-modified") ?? undefined,
+      fetchedAt: Date.now()
+    });
+    return text;
+  }
+
+  async function writeCacheEntry(path: string, entry: CacheEntry) {
+    await fsp.writeFile(path, JSON.stringify(entry));
+  }
+
+  /**
+   * Remove every cached response.
+   */
+  export async function clearCache(directory: string | null = cacheDirectory) {
+    if (directory) {
+      await fsp.rm(directory, { recursive: true, force: true });
+    }
   }
 
   /**
    * Fetches the Minecraft server version manifest.
    */
-  export async function getServerVersions(): Promise<VersionManifest> {
-    const response = await fetch("https://launchermeta.mojang.com/mc/game/version_manifest.json");
-    const data = await response.json();
-    return data;
+  export async function getServerVersions(opts?: RequestOptions): Promise<VersionManifest> {
+    const url = opts?.endpoints?.versionManifest ?? versionManifestUrl;
+    return JSON.parse(await fetchCached(url, opts));
   }
 
   /**
    * Fetches the available Forge versions for a given Minecraft version.
    * @returns An array of Forge versions.
    */
-  export async function getForgeVersions(minecraftVersion: string): Promise<string[]> {
+  export async function getForgeVersions(minecraftVersion: string, opts?: RequestOptions): Promise<string[]> {
 
     if (minecraftVersion === "latest") {
-      const versions = await getServerVersions();
+      const versions = await getServerVersions(opts);
       minecraftVersion = versions.latest.release;
     }
     
-    const url = `https://files.minecraftforge.net/net/minecraftforge/forge/index_${minecraftVersion}.html`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch Forge versions: ${response.statusText}`);
-    }
-    const html = await response.text();
+    const url = `${opts?.endpoints?.forgeFiles ?? forgeFilesUrl}/net/minecraftforge/forge/index_${minecraftVersion}.html`;
+    const html = await fetchCached(url, opts);
     const versionPattern = new RegExp(`forge-${minecraftVersion}-([\\d.]+)-installer\\.jar`, 'g');
     const versions = new Set<string>();
     let match;
@@ -61,15 +357,126 @@ export namespace MinecraftApi {
     return Array.from(versions);
   }
 
+  /**
+   * Get the URL of the Forge installer for a Minecraft and Forge version.
+   * @param mavenUrl Base URL of the Forge Maven repository. Default is `forgeMavenUrl`.
+   */
+  export function getForgeInstallerUrl(minecraftVersion: string, forgeVersion: string, mavenUrl: string = forgeMavenUrl): string {
+    const version = `${minecraftVersion}-${forgeVersion}`;
+    return `${mavenUrl}/net/minecraftforge/forge/${version}/forge-${version}-installer.jar`;
+  }
+
+  /**
+   * Get the Maven artifact the NeoForge versions of a Minecraft version are published under, and the prefix those versions have.
+   */
+  function getNeoForgeArtifact(minecraftVersion: string) {
+    // NeoForge for 1.20.1 is published as net.neoforged:forge, with versions such as 1.20.1-47.1.106
+    if (minecraftVersion === "1.20.1") {
+      return { artifact: "forge", prefix: "1.20.1-" };
+    }
+    // Later versions drop the leading 1 of the Minecraft version, such as 21.1.77 for 1.21.1 and 21.0.167 for 1.21
+    if (minecraftVersion.startsWith("1.")) {
+      const [major, minor = "0"] = minecraftVersion.slice(2).split(".");
+      return { artifact: "neoforge", prefix: `${major}.${minor}.` };
+    }
+    const [year, drop = "0", hotfix = "0"] = minecraftVersion.split(".");
+    return { artifact: "neoforge", prefix: `${year}.${drop}.${hotfix}.` };
+  }
+
+  /**
+   * Fetches the available NeoForge versions for a given Minecraft version from the Maven metadata.
+   * @returns An array of NeoForge versions, newest first. Beta versions end with `-beta`.
+   */
+  export async function getNeoForgeVersions(minecraftVersion: string, opts?: RequestOptions): Promise<string[]> {
+    if (minecraftVersion === "latest") {
+      const versions = await getServerVersions(opts);
+      minecraftVersion = versions.latest.release;
+    }
+
+    const { artifact, prefix } = getNeoForgeArtifact(minecraftVersion);
+    const url = `${opts?.endpoints?.neoforgeMaven ?? neoforgeMavenUrl}/net/neoforged/${artifact}/maven-metadata.xml`;
+    const xml = await fetchCached(url, opts);
+    const versionPattern = /<version>\s*([^<\s]+)\s*<\/version>/g;
+    const versions: string[] = [];
+    let match;
+    while ((match = versionPattern.exec(xml)) !== null) {
+      if (!match[1].startsWith(prefix)) continue;
+      // The Minecraft version in front of 1.20.1 versions is left out, like Forge versions
+      versions.push(artifact === "forge" ? match[1].slice(prefix.length) : match[1]);
+    }
+    // Maven lists versions oldest first
+    return versions.reverse();
+  }
+
+  /**
+   * Get the URL of the NeoForge installer for a Minecraft and NeoForge version.
+   * @param mavenUrl Base URL of the NeoForge Maven repository. Default is `neoforgeMavenUrl`.
+   */
+  export function getNeoForgeInstallerUrl(minecraftVersion: string, neoforgeVersion: string, mavenUrl: string = neoforgeMavenUrl): string {
+    const { artifact } = getNeoForgeArtifact(minecraftVersion);
+    const version = artifact === "forge" ? `${minecraftVersion}-${neoforgeVersion}` : neoforgeVersion;
+    return `${mavenUrl}/net/neoforged/${artifact}/${version}/${artifact}-${version}-installer.jar`;
+  }
+
+  /**
+   * Fetches the available Fabric loader versions for a given Minecraft version.
+   * @param metaUrl Base URL of the Fabric meta API, if `opts.endpoints.fabricMeta` isn't set. Default is `fabricMetaUrl`.
+   * @returns An array of Fabric loader versions, newest first.
+   */
+  export async function getFabricLoaderVersions(minecraftVersion: string, metaUrl?: string, opts?: RequestOptions): Promise<FabricLoaderVersion[]> {
+    metaUrl = opts?.endpoints?.fabricMeta ?? metaUrl ?? fabricMetaUrl;
+    if (minecraftVersion === "latest") {
+      const versions = await getServerVersions(opts);
+      minecraftVersion = versions.latest.release;
+    }
+
+    const data: { loader: FabricLoaderVersion }[] = JSON.parse(await fetchCached(`${metaUrl}/v2/versions/loader/${encodeURIComponent(minecraftVersion)}`, opts));
+    return data.map(entry => entry.loader);
+  }
+
+  /**
+   * Fetches the available Fabric installer versions.
+   * @param metaUrl Base URL of the Fabric meta API, if `opts.endpoints.fabricMeta` isn't set. Default is `fabricMetaUrl`.
+   * @returns An array of Fabric installer versions, newest first.
+   */
+  export async function getFabricInstallerVersions(metaUrl?: string, opts?: RequestOptions): Promise<FabricInstallerVersion[]> {
+    metaUrl = opts?.endpoints?.fabricMeta ?? metaUrl ?? fabricMetaUrl;
+    return JSON.parse(await fetchCached(`${metaUrl}/v2/versions/installer`, opts));
+  }
+
+  /**
+   * Fetches the Minecraft versions available for a PaperMC project.
+   * @param project PaperMC project name. Default is `paper`.
+   * @param apiUrl Base URL of the PaperMC API, if `opts.endpoints.paperApi` isn't set. Default is `paperApiUrl`.
+   * @returns An array of Minecraft versions, oldest first.
+   */
+  export async function getPaperVersions(project: string = "paper", apiUrl?: string, opts?: RequestOptions): Promise<string[]> {
+    apiUrl = opts?.endpoints?.paperApi ?? apiUrl ?? paperApiUrl;
+    const data: { versions: string[] } = JSON.parse(await fetchCached(`${apiUrl}/v2/projects/${project}`, opts));
+    return data.versions;
+  }
+
+  /**
+   * Fetches the builds available for a Minecraft version of a PaperMC project.
+   * @param project PaperMC project name. Default is `paper`.
+   * @param apiUrl Base URL of the PaperMC API, if `opts.endpoints.paperApi` isn't set. Default is `paperApiUrl`.
+   * @returns An array of builds, oldest first.
+   */
+  export async function getPaperBuilds(minecraftVersion: string, project: string = "paper", apiUrl?: string, opts?: RequestOptions): Promise<PaperBuild[]> {
+    apiUrl = opts?.endpoints?.paperApi ?? apiUrl ?? paperApiUrl;
+    const data: { builds: PaperBuild[] } = JSON.parse(await fetchCached(`${apiUrl}/v2/projects/${project}/versions/${encodeURIComponent(minecraftVersion)}/builds`, opts));
+    return data.builds;
+  }
+
   /**
    * Fetches the Minecraft server data for a given version.
    * @param version The version to fetch data for.
    * @returns The version data.
    */
-  export async function getServerData(version: string | Version): Promise<VersionData> {
+  export async function getServerData(version: string | Version, opts?: RequestOptions): Promise<VersionData> {
     let versionObj: Version | undefined;
     if (typeof version === "string") {
-      const data = await getServerVersions();
+      const data = await getServerVersions(opts);
 
       if (version === "latest") version = data.latest.release;
       if (version === "latest-snapshot") version = data.latest.snapshot;
@@ -80,10 +487,9 @@ export namespace MinecraftApi {
       versionObj = version;
     }
     if (!versionObj) {
-      throw new Error(`Version ${versionObj} not found.`);
+      throw new Error(`Version ${version} not found.`);
     }
-    const versionResponse = await fetch(versionObj.url);
-    return await versionResponse.json();
+    return JSON.parse(await fetchCached(versionObj.url, opts));
   }
 }
 
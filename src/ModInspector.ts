@@ -0,0 +1,553 @@
+import Path from "node:path";
+import ZipArchive from "./Zip";
+
+/**
+ * Reads the metadata of mod jars: `META-INF/mods.toml` and `META-INF/neoforge.mods.toml` of Forge and NeoForge mods,
+ * `fabric.mod.json` of Fabric mods, `mcmod.info` of Forge mods before 1.13 and `META-INF/MANIFEST.MF` of any jar.
+ */
+export namespace ModInspector {
+  export type DependencyType = "required" | "optional" | "incompatible" | "discouraged";
+  export type Side = "both" | "client" | "server";
+  export type RangeStyle = "maven" | "fabric";
+
+  export interface Dependency {
+    /**
+     * Id of the mod depended on, such as `minecraft`, `forge` or `jei`.
+     */
+    id: string;
+    /**
+     * Versions that satisfy the dependency. Undefined if any version does. See `satisfies`.
+     */
+    versionRange?: string;
+    type: DependencyType;
+    /**
+     * Side the dependency applies to. Default is both.
+     */
+    side?: Side;
+  }
+
+  export interface ModInfo {
+    id: string;
+    version: string;
+    name?: string;
+    description?: string;
+    authors?: string[];
+    /**
+     * Side the mod runs on. Client-only mods can't run on a server.
+     */
+    side: Side;
+    dependencies: Dependency[];
+    /**
+     * Syntax of the version ranges of the dependencies.
+     */
+    rangeStyle: RangeStyle;
+    /**
+     * Metadata file the info was read from.
+     */
+    source: string;
+  }
+
+  export interface JarInfo {
+    /**
+     * File name of the jar.
+     */
+    file: string;
+    /**
+     * Loaders the jar has metadata for, such as `forge`, `neoforge` or `fabric`. Empty for plain libraries.
+     */
+    loaders: string[];
+    /**
+     * Mods declared in the jar. A jar can declare several.
+     */
+    mods: ModInfo[];
+    /**
+     * Main attributes of `META-INF/MANIFEST.MF`.
+     */
+    manifest: Record<string, string>;
+  }
+
+  export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+  export interface TomlTable {
+    [key: string]: TomlValue;
+  }
+
+  /**
+   * A `mods.toml` or `neoforge.mods.toml` file, as far as it's read. The fields aren't validated, since mods write them by hand.
+   */
+  export interface ModsToml {
+    mods?: {
+      modId: string;
+      version?: string;
+      displayName?: string;
+      description?: string;
+      authors?: string | string[];
+    }[];
+    /**
+     * Dependencies by the id of the mod that has them.
+     */
+    dependencies?: Record<string, {
+      modId: string;
+      versionRange?: string;
+      /**
+       * Used by Forge. NeoForge uses `type` instead.
+       */
+      mandatory?: boolean;
+      type?: string;
+      side?: string;
+    }[]>;
+    clientSideOnly?: boolean;
+  }
+
+  /**
+   * A `fabric.mod.json` file, as far as it's read.
+   */
+  export interface FabricModJson {
+    id: string;
+    version?: string;
+    name?: string;
+    description?: string;
+    authors?: (string | { name: string })[];
+    environment?: string;
+    depends?: Record<string, string | string[]>;
+    recommends?: Record<string, string | string[]>;
+    suggests?: Record<string, string | string[]>;
+    breaks?: Record<string, string | string[]>;
+    conflicts?: Record<string, string | string[]>;
+  }
+
+  /**
+   * A mod in an `mcmod.info` file, as far as it's read.
+   */
+  export interface McmodInfoEntry {
+    modid: string;
+    version?: string;
+    name?: string;
+    description?: string;
+    authorList?: string[];
+    authors?: string[];
+    /**
+     * Required mods as `id@range`.
+     */
+    requiredMods?: string[];
+    mcversion?: string;
+  }
+
+  /**
+   * Read the metadata of a mod jar.
+   * @throws Error if the file isn't a zip archive or its metadata can't be parsed.
+   */
+  export async function inspect(jarPath: string): Promise<JarInfo> {
+    return await ZipArchive.use(jarPath, async zip => {
+      const manifestText = await zip.readText("META-INF/MANIFEST.MF");
+      const manifest = manifestText ? parseManifest(manifestText) : {};
+      const info: JarInfo = { file: Path.basename(jarPath), loaders: [], mods: [], manifest };
+
+      const neoforgeToml = await zip.readText("META-INF/neoforge.mods.toml");
+      if (neoforgeToml !== undefined) {
+        info.loaders.push("neoforge");
+        info.mods.push(...parseModsToml(neoforgeToml, manifest, "META-INF/neoforge.mods.toml"));
+      }
+      const modsToml = await zip.readText("META-INF/mods.toml");
+      if (modsToml !== undefined) {
+        info.loaders.push("forge");
+        if (neoforgeToml === undefined) info.mods.push(...parseModsToml(modsToml, manifest, "META-INF/mods.toml"));
+      }
+      const fabricJson = await zip.readText("fabric.mod.json");
+      if (fabricJson !== undefined) {
+        info.loaders.push("fabric");
+        info.mods.push(parseFabricModJson(fabricJson));
+      }
+      const mcmodInfo = await zip.readText("mcmod.info");
+      if (mcmodInfo !== undefined && modsToml === undefined && neoforgeToml === undefined) {
+        info.loaders.push("forge");
+        info.mods.push(...parseMcmodInfo(mcmodInfo));
+      }
+      return info;
+    });
+  }
+
+  /**
+   * Parse the main attributes of a jar manifest. Lines starting with a space continue the line before them.
+   */
+  export function parseManifest(text: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    let last: string | null = null;
+    for (const line of text.split(/\r?\n/)) {
+      // Attributes of individual entries follow the first empty line
+      if (line === "") break;
+      if (line.startsWith(" ") && last) {
+        result[last] += line.slice(1);
+        continue;
+      }
+      const index = line.indexOf(":");
+      if (index === -1) continue;
+      last = line.slice(0, index).trim();
+      result[last] = line.slice(index + 1).trim();
+    }
+    return result;
+  }
+
+  /**
+   * Parse a `mods.toml` or `neoforge.mods.toml` file.
+   * `${file.jarVersion}` is replaced with the `Implementation-Version` of the manifest.
+   */
+  export function parseModsToml(text: string, manifest: Record<string, string> = {}, source = "META-INF/mods.toml"): ModInfo[] {
+    const data = parseToml(text) as ModsToml;
+    const jarVersion = manifest["Implementation-Version"];
+    const sideOf = (value: unknown): Side => {
+      const side = typeof value === "string" ? value.toLowerCase() : "both";
+      return side === "client" || side === "server" ? side : "both";
+    };
+
+    return (data.mods ?? []).map((mod): ModInfo => {
+      const version = String(mod.version ?? "");
+      const authors = mod.authors;
+      return {
+        id: mod.modId,
+        version: jarVersion ? version.replace("${file.jarVersion}", jarVersion) : version,
+        name: mod.displayName,
+        description: typeof mod.description === "string" ? mod.description.trim() : undefined,
+        authors: Array.isArray(authors) ? authors : typeof authors === "string" ? authors.split(/,\s*/).filter(Boolean) : undefined,
+        side: data.clientSideOnly === true ? "client" : "both",
+        dependencies: (data.dependencies?.[mod.modId] ?? []).map((dep): Dependency => ({
+          id: dep.modId,
+          versionRange: dep.versionRange || undefined,
+          // NeoForge replaced `mandatory` with `type`
+          type: typeof dep.type === "string" ? dep.type.toLowerCase() as DependencyType : dep.mandatory === false ? "optional" : "required",
+          side: sideOf(dep.side)
+        })),
+        rangeStyle: "maven",
+        source
+      };
+    });
+  }
+
+  /**
+   * Parse a `fabric.mod.json` file. Ranges listed as arrays are joined with `||`, since any of them may match.
+   */
+  export function parseFabricModJson(text: string): ModInfo {
+    const data: FabricModJson = JSON.parse(text);
+    const dependencies: Dependency[] = [];
+    const fields: [keyof FabricModJson & ("depends" | "recommends" | "suggests" | "breaks" | "conflicts"), DependencyType][] = [["depends", "required"], ["recommends", "optional"], ["suggests", "optional"], ["breaks", "incompatible"], ["conflicts", "discouraged"]];
+    for (const [field, type] of fields) {
+      for (const [id, range] of Object.entries(data[field] ?? {})) {
+        const versionRange = Array.isArray(range) ? range.join(" || ") : range;
+        dependencies.push({ id, versionRange: versionRange && versionRange !== "*" ? versionRange : undefined, type });
+      }
+    }
+
+    const environment = data.environment ?? "*";
+    return {
+      id: data.id,
+      version: String(data.version ?? ""),
+      name: data.name,
+      description: data.description,
+      authors: (data.authors ?? []).map(a => typeof a === "string" ? a : a.name),
+      side: environment === "client" || environment === "server" ? environment : "both",
+      dependencies,
+      rangeStyle: "fabric",
+      source: "fabric.mod.json"
+    };
+  }
+
+  /**
+   * Parse an `mcmod.info` file. Both the plain list and the `modList` format are understood.
+   * Required mods are listed as `id@range`, and the Minecraft version is added as a dependency.
+   */
+  export function parseMcmodInfo(text: string): ModInfo[] {
+    const data: McmodInfoEntry[] | { modList?: McmodInfoEntry[] } = JSON.parse(text);
+    const list = Array.isArray(data) ? data : data.modList ?? [];
+    return list.map((mod): ModInfo => {
+      const dependencies: Dependency[] = (mod.requiredMods ?? []).map((entry): Dependency => {
+        const [id, versionRange] = entry.split("@");
+        return { id, versionRange: versionRange || undefined, type: "required" };
+      });
+      if (mod.mcversion && !dependencies.some(d => d.id === "minecraft")) {
+        dependencies.push({ id: "minecraft", versionRange: `[${mod.mcversion}]`, type: "required" });
+      }
+      return {
+        id: mod.modid,
+        version: String(mod.version ?? ""),
+        name: mod.name,
+        description: mod.description,
+        authors: mod.authorList ?? mod.authors,
+        side: "both",
+        dependencies,
+        rangeStyle: "maven",
+        source: "mcmod.info"
+      };
+    });
+  }
+
+  /**
+   * Compare two versions part by part. Numeric parts are compared as numbers and missing parts count as 0.
+   * @returns A negative number if `a` is older, a positive number if it's newer and 0 if they're equal.
+   */
+  export function compareVersions(a: string, b: string): number {
+    const split = (version: string) => version.split(/[.+_-]/);
+    const [pa, pb] = [split(a), split(b)];
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+      const [x, y] = [pa[i] ?? "0", pb[i] ?? "0"];
+      const [nx, ny] = [Number(x), Number(y)];
+      const diff = !isNaN(nx) && !isNaN(ny) ? nx - ny : x.localeCompare(y);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  /**
+   * Check whether a version is within a range.
+   *
+   * Maven ranges, used by Forge, look like `[1.20.1,1.21)` and can be combined with commas. A version without brackets is only a recommendation and matches anything.
+   * Fabric ranges are space separated predicates such as `>=0.15.0 <0.16`, `~1.20.1`, `^1.0.0` or `1.20.x`, and alternatives are separated by `||`.
+   */
+  export function satisfies(version: string, range: string | undefined, style: RangeStyle): boolean {
+    if (!range || range.trim() === "*") return true;
+    return style === "maven" ? satisfiesMaven(version, range.trim()) : satisfiesFabric(version, range.trim());
+  }
+
+  function satisfiesMaven(version: string, range: string): boolean {
+    const sets = range.match(/[[(][^\])]*[\])]/g);
+    if (!sets) return true;
+    return sets.some(set => {
+      const inclusiveStart = set.startsWith("[");
+      const inclusiveEnd = set.endsWith("]");
+      const bounds = set.slice(1, -1).split(",").map(b => b.trim());
+      if (bounds.length === 1) return compareVersions(version, bounds[0]) === 0;
+      const [low, high] = bounds;
+      if (low) {
+        const diff = compareVersions(version, low);
+        if (inclusiveStart ? diff < 0 : diff <= 0) return false;
+      }
+      if (high) {
+        const diff = compareVersions(version, high);
+        if (inclusiveEnd ? diff > 0 : diff >= 0) return false;
+      }
+      return true;
+    });
+  }
+
+  function satisfiesFabric(version: string, range: string): boolean {
+    return range.split("||").some(alternative => alternative.trim().split(/\s+/).every(predicate => {
+      const [, operator, target] = predicate.match(/^(>=|<=|>|<|=|~|\^)?(.*)$/)!;
+      if (target === "*" || target === "") return true;
+      const diff = compareVersions(version, target.replace(/\.[xX*]$/, ""));
+      const prefix = (value: string, parts: number) => value.split(".").slice(0, parts).join(".");
+      switch (operator) {
+        case ">=": return diff >= 0;
+        case "<=": return diff <= 0;
+        case ">": return diff > 0;
+        case "<": return diff < 0;
+        // Same major and minor version
+        case "~": return diff >= 0 && prefix(version, 2) === prefix(target, 2);
+        // Same major version
+        case "^": return diff >= 0 && prefix(version, 1) === prefix(target, 1);
+      }
+      // 1.20.x matches every 1.20 version
+      if (/\.[xX*]$/.test(target)) {
+        const prefix = target.slice(0, -2);
+        return version === prefix || version.startsWith(prefix + ".");
+      }
+      return diff === 0;
+    }));
+  }
+
+  /**
+   * Parse TOML, as far as mod metadata uses it: tables, arrays of tables, dotted keys, strings of every kind, numbers, booleans, arrays and inline tables.
+   * Dates are returned as strings.
+   * @throws Error if the text isn't valid TOML.
+   */
+  export function parseToml(text: string): TomlTable {
+    // Tables have no prototype, so keys like `__proto__` from a mod's metadata stay plain keys
+    const newTable = (): TomlTable => Object.create(null);
+    const root = newTable();
+    let current = root;
+    let pos = 0;
+
+    const fail = (message: string): never => {
+      const line = text.slice(0, pos).split("\n").length;
+      throw new Error(`Invalid TOML on line ${line}: ${message}`);
+    };
+    const skipSpace = () => {
+      while (text[pos] === " " || text[pos] === "\t") pos++;
+    };
+    const skipComment = () => {
+      if (text[pos] === "#") while (pos < text.length && text[pos] !== "\n") pos++;
+    };
+    const skipAll = () => {
+      while (pos < text.length) {
+        if (/\s/.test(text[pos])) pos++;
+        else if (text[pos] === "#") skipComment();
+        else break;
+      }
+    };
+    const expect = (token: string) => {
+      if (!text.startsWith(token, pos)) fail(`expected ${token}`);
+      pos += token.length;
+    };
+
+    const parseString = (): string => {
+      const multiline = text.startsWith('"""', pos) || text.startsWith("'''", pos);
+      const quote = multiline ? text.slice(pos, pos + 3) : text[pos];
+      const literal = quote[0] === "'";
+      pos += quote.length;
+      // A newline right after the opening quotes isn't part of the string
+      if (multiline && text[pos] === "\r") pos++;
+      if (multiline && text[pos] === "\n") pos++;
+
+      let result = "";
+      while (!text.startsWith(quote, pos)) {
+        if (pos >= text.length || (!multiline && text[pos] === "\n")) fail("unterminated string");
+        const char = text[pos++];
+        if (char !== "\\" || literal) {
+          result += char;
+          continue;
+        }
+        const escape = text[pos++];
+        switch (escape) {
+          case "n": result += "\n"; break;
+          case "t": result += "\t"; break;
+          case "r": result += "\r"; break;
+          case "b": result += "\b"; break;
+          case "f": result += "\f"; break;
+          case "\"": result += "\""; break;
+          case "\\": result += "\\"; break;
+          case "u":
+          case "U": {
+            const length = escape === "u" ? 4 : 8;
+            result += String.fromCodePoint(parseInt(text.slice(pos, pos + length), 16));
+            pos += length;
+            break;
+          }
+          default:
+            // A backslash at the end of a line trims the line break and the whitespace after it
+            if (multiline && /\s/.test(escape)) {
+              while (/\s/.test(text[pos])) pos++;
+              break;
+            }
+            fail(`invalid escape \\${escape}`);
+        }
+      }
+      pos += quote.length;
+      return result;
+    };
+
+    const parseKey = (): string[] => {
+      const parts: string[] = [];
+      while (true) {
+        skipSpace();
+        if (text[pos] === "\"" || text[pos] === "'") {
+          parts.push(parseString());
+        }
+        else {
+          const match = text.slice(pos).match(/^[A-Za-z0-9_-]+/);
+          if (!match) fail("expected a key");
+          parts.push(match![0]);
+          pos += match![0].length;
+        }
+        skipSpace();
+        if (text[pos] !== ".") return parts;
+        pos++;
+      }
+    };
+
+    const parseValue = (): TomlValue => {
+      const char = text[pos];
+      if (char === "\"" || char === "'") return parseString();
+      if (char === "[") {
+        pos++;
+        const array: TomlValue[] = [];
+        while (true) {
+          skipAll();
+          if (text[pos] === "]") break;
+          array.push(parseValue());
+          skipAll();
+          if (text[pos] === ",") pos++;
+          else if (text[pos] !== "]") fail("expected , or ]");
+        }
+        pos++;
+        return array;
+      }
+      if (char === "{") {
+        pos++;
+        const table = newTable();
+        skipSpace();
+        while (text[pos] !== "}") {
+          const key = parseKey();
+          expect("=");
+          skipSpace();
+          assign(table, key, parseValue());
+          skipSpace();
+          if (text[pos] === ",") pos++;
+          else if (text[pos] !== "}") fail("expected , or }");
+          skipSpace();
+        }
+        pos++;
+        return table;
+      }
+
+      const match = text.slice(pos).match(/^[^\s,\]}#]+/);
+      if (!match) fail("expected a value");
+      const raw = match![0];
+      pos += raw.length;
+      if (raw === "true" || raw === "false") return raw === "true";
+      const number = Number(raw.replace(/_/g, ""));
+      if (!isNaN(number) && /^[+-]?(\d|0x|0o|0b|inf|nan)/.test(raw)) return number;
+      // Dates and times are kept as they are
+      if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(raw)) return raw;
+      return fail(`invalid value ${raw}`);
+    };
+
+    const navigate = (table: TomlTable, path: string[]): TomlTable => {
+      for (const part of path) {
+        let next = Object.prototype.hasOwnProperty.call(table, part) ? table[part] : undefined;
+        if (Array.isArray(next)) next = next[next.length - 1];
+        if (next === undefined) next = table[part] = newTable();
+        if (typeof next !== "object" || Array.isArray(next)) return fail(`${part} is not a table`);
+        table = next;
+      }
+      return table;
+    };
+
+    function assign(table: TomlTable, key: string[], value: TomlValue) {
+      navigate(table, key.slice(0, -1))[key[key.length - 1]] = value;
+    }
+
+    while (true) {
+      skipAll();
+      if (pos >= text.length) break;
+
+      if (text.startsWith("[[", pos)) {
+        pos += 2;
+        const key = parseKey();
+        expect("]]");
+        const parent = navigate(root, key.slice(0, -1));
+        const name = key[key.length - 1];
+        const tables = parent[name] ??= [];
+        if (!Array.isArray(tables)) return fail(`${key.join(".")} is not an array of tables`);
+        current = newTable();
+        tables.push(current);
+      }
+      else if (text[pos] === "[") {
+        pos++;
+        const key = parseKey();
+        expect("]");
+        current = navigate(root, key);
+      }
+      else {
+        const key = parseKey();
+        expect("=");
+        skipSpace();
+        assign(current, key, parseValue());
+      }
+
+      skipSpace();
+      skipComment();
+      if (pos < text.length && text[pos] !== "\n" && text[pos] !== "\r") fail("expected a new line");
+    }
+    return root;
+  }
+}
+
+export default ModInspector;
@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import crypto from "node:crypto";
+
+/**
+ * Reading and writing of `ionmc.lock.json`, the record of every mod installed through the library:
+ * where it came from, which file it is and whether it's enabled.
+ */
+export namespace ModLock {
+  export const fileName = "ionmc.lock.json";
+
+  export interface Entry {
+    /**
+     * Name of the mod provider, such as `curseforge` or `modrinth`. `url` for files from modpacks that only list a download URL.
+     */
+    provider: string;
+    projectId: string;
+    fileId: string;
+    /**
+     * File that was asked for, if a different one was installed because it wasn't available.
+     */
+    requestedFileId?: string;
+    fileName: string;
+    url: string;
+    /**
+     * SHA-1 checksum of the installed file, in hex.
+     */
+    sha1: string;
+    size: number;
+    /**
+     * Whether the mod is in `mods`. Disabled mods are in `modsavailable`.
+     */
+    enabled: boolean;
+    /**
+     * ISO time the file was installed.
+     */
+    installedAt: string;
+  }
+
+  export interface Lockfile {
+    lockfileVersion: 1;
+    minecraftVersion?: string;
+    loader?: string;
+    mods: Entry[];
+  }
+
+  export function getPath(serverPath: string) {
+    return Path.join(serverPath, fileName);
+  }
+
+  /**
+   * Read the lockfile of a server. A missing file means nothing was installed.
+   */
+  export async function read(serverPath: string): Promise<Lockfile> {
+    const data = await fsp.readFile(getPath(serverPath), "utf-8").catch(() => null);
+    if (data === null) return { lockfileVersion: 1, mods: [] };
+    return JSON.parse(data);
+  }
+
+  export async function write(serverPath: string, lock: Lockfile) {
+    const path = getPath(serverPath);
+    const tmp = `${path}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(lock, null, 2));
+    await fsp.rename(tmp, path);
+  }
+
+  /**
+   * Add an entry, replacing the entry of the same project and any entry with the same file name.
+   * @returns The replaced entries.
+   */
+  export function upsert(lock: Lockfile, entry: Entry): Entry[] {
+    const replaces = (e: Entry) => (e.provider === entry.provider && e.projectId === entry.projectId) || e.fileName === entry.fileName;
+    const replaced = lock.mods.filter(replaces);
+    lock.mods = lock.mods.filter(e => !replaces(e));
+    lock.mods.push(entry);
+    return replaced;
+  }
+
+  /**
+   * Get the project and version id of a Modrinth CDN URL, such as `https://cdn.modrinth.com/data/<project>/versions/<version>/<file>`.
+   * @returns The ids, or null if the URL isn't one.
+   */
+  export function parseModrinthUrl(url: string): { projectId: string; fileId: string } | null {
+    const match = url.match(/^https:\/\/cdn\.modrinth\.com\/data\/([^/]+)\/versions\/([^/]+)\//);
+    return match ? { projectId: match[1], fileId: match[2] } : null;
+  }
+
+  /**
+   * Hash a file without reading it into memory at once.
+   */
+  export function hashFile(path: string, algorithm = "sha1"): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash(algorithm);
+      fs.createReadStream(path)
+        .on("data", chunk => hash.update(chunk))
+        .on("end", () => resolve(hash.digest("hex")))
+        .on("error", reject);
+    });
+  }
+}
+
+export default ModLock;
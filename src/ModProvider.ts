@@ -0,0 +1,104 @@
+import MinecraftApi from "./MinecraftApi";
+import CurseForgeProvider from "./CurseForgeProvider";
+import ModrinthProvider from "./ModrinthProvider";
+
+/**
+ * A site mods are installed from, such as CurseForge or Modrinth.
+ */
+export interface ModProvider {
+  /**
+   * Name of the provider, such as `curseforge`.
+   */
+  readonly name: string;
+  /**
+   * Find the file of a mod to install.
+   * If `fileId` isn't available anymore, or isn't set, the newest file compatible with the game version and loader is returned instead.
+   * @param projectId Id of the mod. Modrinth accepts its slug as well.
+   * @throws Error if the mod has no compatible files.
+   */
+  resolve(projectId: string | number, opts?: ModProvider.ResolveOptions): Promise<ModProvider.ModFile>;
+}
+
+export namespace ModProvider {
+  export interface ResolveOptions {
+    /**
+     * Specific file to install, such as a CurseForge file id or a Modrinth version id.
+     */
+    fileId?: string | number | null;
+    /**
+     * Minecraft version the file must support.
+     */
+    gameVersion?: string;
+    /**
+     * Mod loader the file must support, such as `forge` or `fabric`.
+     */
+    loader?: string;
+    api?: MinecraftApi.RequestOptions;
+  }
+
+  export interface Dependency {
+    projectId: string;
+    /**
+     * Specific file of the dependency. The newest compatible file is used if undefined.
+     */
+    fileId?: string;
+    required: boolean;
+  }
+
+  export interface ModFile {
+    provider: string;
+    projectId: string;
+    fileId: string;
+    /**
+     * File that was asked for, if a different one was returned because it wasn't available.
+     */
+    requestedFileId?: string;
+    fileName: string;
+    url: string;
+    size?: number;
+    sha1?: string;
+    sha512?: string;
+    dependencies: Dependency[];
+  }
+
+  /**
+   * Built-in providers, by name. Add to this to register your own.
+   */
+  export const providers: Record<string, ModProvider> = {
+    curseforge: new CurseForgeProvider(),
+    modrinth: new ModrinthProvider(),
+  };
+
+  /**
+   * Get a provider by name.
+   * @throws Error if there is no provider with that name.
+   */
+  export function get(provider: ModProvider | string): ModProvider {
+    if (typeof provider !== "string") return provider;
+    const found = providers[provider];
+    if (!found) throw new Error(`Unknown mod provider ${provider}.`);
+    return found;
+  }
+
+  /**
+   * Resolve a mod and every required dependency it has, recursively.
+   * @param skip Ids of projects to leave out, such as mods that are installed already.
+   * @returns The mod first, followed by its dependencies. Every project is only listed once.
+   */
+  export async function resolveWithDependencies(provider: ModProvider, projectId: string | number, opts?: ResolveOptions, skip: Iterable<string> = []): Promise<ModFile[]> {
+    const file = await provider.resolve(projectId, opts);
+    const files = [file];
+    const seen = new Set([...skip, file.projectId]);
+
+    for (let i = 0; i < files.length; i++) {
+      for (const dependency of files[i].dependencies) {
+        if (!dependency.required || seen.has(dependency.projectId)) continue;
+        seen.add(dependency.projectId);
+        files.push(await provider.resolve(dependency.projectId, { ...opts, fileId: dependency.fileId }));
+      }
+    }
+    return files;
+  }
+}
+
+export default ModProvider;
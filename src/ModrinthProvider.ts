@@ -0,0 +1,144 @@
+import MinecraftApi from "./MinecraftApi";
+import type ModProvider from "./ModProvider";
+
+/**
+ * Installs mods from Modrinth. Files come with SHA-1 and SHA-512 checksums and a list of dependencies.
+ */
+export class ModrinthProvider implements ModProvider {
+  public readonly name = "modrinth";
+
+  constructor(opts?: ModrinthProvider.Options) {
+    this.apiUrl = opts?.apiUrl;
+  }
+
+  /**
+   * Base URL of the API used by this provider. Default is `MinecraftApi.modrinthApiUrl`.
+   */
+  public apiUrl?: string;
+
+  private getApiUrl(opts?: ModProvider.ResolveOptions) {
+    return opts?.api?.endpoints?.modrinthApi ?? this.apiUrl ?? MinecraftApi.modrinthApiUrl;
+  }
+
+  /**
+   * Get a version by its id.
+   * @returns The version, or null if it doesn't exist.
+   */
+  public async getVersion(versionId: string, opts?: ModProvider.ResolveOptions): Promise<ModrinthProvider.Version | null> {
+    try {
+      return JSON.parse(await MinecraftApi.fetchCached(`${this.getApiUrl(opts)}/v2/version/${encodeURIComponent(versionId)}`, opts?.api));
+    }
+    catch (error: unknown) {
+      if (error instanceof MinecraftApi.FetchError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Get the versions of a project that support a game version and loader, newest first.
+   * @param projectId Id or slug of the project.
+   */
+  public async getVersions(projectId: string, opts?: ModProvider.ResolveOptions): Promise<ModrinthProvider.Version[]> {
+    const params = new URLSearchParams();
+    if (opts?.loader) params.set("loaders", JSON.stringify([opts.loader]));
+    if (opts?.gameVersion) params.set("game_versions", JSON.stringify([opts.gameVersion]));
+    const query = params.toString();
+    const url = `${this.getApiUrl(opts)}/v2/project/${encodeURIComponent(projectId)}/version${query ? `?${query}` : ""}`;
+    return JSON.parse(await MinecraftApi.fetchCached(url, opts?.api));
+  }
+
+  public async resolve(projectId: string | number, opts?: ModProvider.ResolveOptions): Promise<ModProvider.ModFile> {
+    opts ??= {};
+    const fileId = opts.fileId ? opts.fileId.toString() : null;
+
+    let version = fileId ? await this.getVersion(fileId, opts) : null;
+    if (!version) {
+      const versions = await this.getVersions(projectId.toString(), opts);
+      version = versions.find(v => v.version_type === "release") ?? versions[0];
+    }
+    if (!version) {
+      throw new Error(`No versions of ${projectId} found${opts.gameVersion ? ` for Minecraft ${opts.gameVersion}` : ""}${opts.loader ? ` on ${opts.loader}` : ""}`);
+    }
+
+    const file = version.files.find(f => f.primary) ?? version.files[0];
+    if (!file) throw new Error(`Version ${version.id} of ${projectId} has no files`);
+
+    return {
+      provider: this.name,
+      projectId: version.project_id,
+      fileId: version.id,
+      requestedFileId: fileId && fileId !== version.id ? fileId : undefined,
+      fileName: file.filename,
+      url: file.url,
+      size: file.size,
+      sha1: file.hashes.sha1,
+      sha512: file.hashes.sha512,
+      dependencies: version.dependencies
+        .filter(d => d.project_id && (d.dependency_type === "required" || d.dependency_type === "optional"))
+        .map(d => ({
+          projectId: d.project_id!,
+          fileId: d.version_id ?? undefined,
+          required: d.dependency_type === "required"
+        }))
+    };
+  }
+}
+
+export namespace ModrinthProvider {
+  export interface Options {
+    apiUrl?: string;
+  }
+
+  export interface Version {
+    id: string;
+    project_id: string;
+    name: string;
+    version_number: string;
+    version_type: "release" | "beta" | "alpha";
+    game_versions: string[];
+    loaders: string[];
+    date_published: string;
+    files: {
+      url: string;
+      filename: string;
+      primary: boolean;
+      size: number;
+      hashes: { sha1?: string; sha512?: string };
+    }[];
+    dependencies: {
+      project_id?: string | null;
+      version_id?: string | null;
+      file_name?: string | null;
+      dependency_type: "required" | "optional" | "incompatible" | "embedded";
+    }[];
+  }
+
+  /**
+   * The `modrinth.index.json` of a `.mrpack` modpack.
+   */
+  export interface PackIndex {
+    formatVersion: number;
+    game: string;
+    versionId: string;
+    name: string;
+    summary?: string;
+    files: {
+      /**
+       * Destination of the file, relative to the instance directory.
+       */
+      path: string;
+      hashes: { sha1: string; sha512: string };
+      env?: { client: EnvSupport; server: EnvSupport };
+      downloads: string[];
+      fileSize: number;
+    }[];
+    /**
+     * Versions of `minecraft` and the loader, such as `forge`, `neoforge`, `fabric-loader` or `quilt-loader`.
+     */
+    dependencies: Record<string, string>;
+  }
+
+  export type EnvSupport = "required" | "optional" | "unsupported";
+}
+
+export default ModrinthProvider;
@@ -0,0 +1,196 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import crypto from "node:crypto";
+import MinecraftApi from "./MinecraftApi";
+import PlayerLists from "./PlayerLists";
+
+/**
+ * Resolves player names to UUIDs. Offline mode UUIDs are computed the way the server does,
+ * online mode UUIDs are looked up in `usercache.json`, an on-disk cache and finally the profile endpoint.
+ */
+export class PlayerIdentity {
+  public options: Required<Omit<PlayerIdentity.Options, "profileUrl">> & Pick<PlayerIdentity.Options, "profileUrl">;
+
+  /**
+   * Cached profiles by lower case name.
+   */
+  private profiles = new Map<string, PlayerIdentity.CachedProfile>();
+  private loaded?: Promise<void>;
+
+  constructor(
+    /**
+     * Path for the root directory of the server. Used to find `usercache.json`.
+     */
+    public readonly serverPath: string,
+    opts?: PlayerIdentity.Options
+  ) {
+    this.options = {
+      cachePath: Path.join(serverPath, "ionmc-profiles.json"),
+      cacheTtl: 7 * 24 * 60 * 60 * 1000,
+      ...opts
+    };
+  }
+
+  /**
+   * Compute the UUID the server assigns to a player in offline mode: a version 3 UUID of `OfflinePlayer:<name>`.
+   */
+  public static offlineUuid(name: string): string {
+    const hash = crypto.createHash("md5").update(`OfflinePlayer:${name}`, "utf-8").digest();
+    hash[6] = (hash[6] & 0x0f) | 0x30;
+    hash[8] = (hash[8] & 0x3f) | 0x80;
+    return PlayerIdentity.formatUuid(hash.toString("hex"));
+  }
+
+  /**
+   * Format a UUID with dashes. UUIDs that already have dashes are returned in lower case.
+   */
+  public static formatUuid(uuid: string): string {
+    const hex = uuid.replace(/-/g, "").toLowerCase();
+    if (!/^[0-9a-f]{32}$/.test(hex)) {
+      throw new Error(`Invalid UUID: ${uuid}`);
+    }
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  /**
+   * Read the `usercache.json` of a server. Returns an empty list if the file doesn't exist.
+   */
+  public static async readUserCache(serverPath: string): Promise<PlayerIdentity.UserCacheEntry[]> {
+    const data = await fsp.readFile(Path.join(serverPath, "usercache.json"), "utf-8").catch(() => null);
+    if (!data) return [];
+    const entries: { name: string, uuid: string, expiresOn?: string }[] = JSON.parse(data);
+    return entries.map(entry => ({
+      name: entry.name,
+      uuid: entry.uuid,
+      expiresOn: entry.expiresOn ? PlayerLists.parseDate(entry.expiresOn) : undefined
+    }));
+  }
+
+  /**
+   * Get a profile from the in-memory cache without looking anywhere else. Expired profiles are still returned.
+   */
+  public getCached(name: string): PlayerIdentity.Profile | undefined {
+    const cached = this.profiles.get(name.toLowerCase());
+    return cached && { name: cached.name, uuid: cached.uuid };
+  }
+
+  /**
+   * Add a known online mode profile to the cache, such as one reported by the server when a player logs in.
+   */
+  public async remember(profile: PlayerIdentity.Profile) {
+    await this.load();
+    this.profiles.set(profile.name.toLowerCase(), { ...profile, cachedAt: Date.now() });
+    await this.save();
+  }
+
+  /**
+   * Resolve the profile of a player.
+   * @param onlineMode Whether the server runs in online mode. Offline mode UUIDs are computed without any lookup. Default is true.
+   * @throws Error if the player doesn't exist in online mode.
+   */
+  public async resolve(name: string, onlineMode: boolean = true): Promise<PlayerIdentity.Profile> {
+    if (!onlineMode) {
+      return { name, uuid: PlayerIdentity.offlineUuid(name) };
+    }
+
+    await this.load();
+    const key = name.toLowerCase();
+    const cached = this.profiles.get(key);
+    if (cached && Date.now() - cached.cachedAt < this.options.cacheTtl) {
+      return { name: cached.name, uuid: cached.uuid };
+    }
+
+    const userCache = await PlayerIdentity.readUserCache(this.serverPath);
+    const entry = userCache.find(e => e.name.toLowerCase() === key && (!e.expiresOn || e.expiresOn.getTime() > Date.now()));
+    if (entry) {
+      return { name: entry.name, uuid: entry.uuid };
+    }
+
+    const profile = await MinecraftApi.getProfile(name, this.options.profileUrl);
+    if (!profile) {
+      throw new Error(`Player ${name} not found.`);
+    }
+    const resolved = { name: profile.name, uuid: PlayerIdentity.formatUuid(profile.id) };
+    await this.remember(resolved);
+    return resolved;
+  }
+
+  /**
+   * Find the name of a player by UUID in the cache and `usercache.json`.
+   * @returns The name, or undefined if the UUID isn't known.
+   */
+  public async resolveName(uuid: string): Promise<string | undefined> {
+    uuid = PlayerIdentity.formatUuid(uuid);
+    await this.load();
+    for (const profile of this.profiles.values()) {
+      if (profile.uuid === uuid) return profile.name;
+    }
+    const userCache = await PlayerIdentity.readUserCache(this.serverPath);
+    return userCache.find(e => e.uuid === uuid)?.name;
+  }
+
+  private load() {
+    return this.loaded ??= (async () => {
+      const data = await fsp.readFile(this.options.cachePath, "utf-8").catch(() => null);
+      if (!data) return;
+      const entries: PlayerIdentity.CachedProfile[] = JSON.parse(data);
+      for (const entry of entries) {
+        // Keep profiles that were remembered before the cache finished loading
+        if (!this.profiles.has(entry.name.toLowerCase())) {
+          this.profiles.set(entry.name.toLowerCase(), entry);
+        }
+      }
+    })();
+  }
+
+  private saving: Promise<void> = Promise.resolve();
+
+  private save() {
+    // Saves are chained so concurrent lookups don't write the file at the same time
+    const write = async () => {
+      await fsp.mkdir(Path.dirname(this.options.cachePath), { recursive: true });
+      const tmp = `${this.options.cachePath}.tmp`;
+      await fsp.writeFile(tmp, JSON.stringify([...this.profiles.values()], null, 2));
+      await fsp.rename(tmp, this.options.cachePath);
+    };
+    return this.saving = this.saving.catch(() => { }).then(write);
+  }
+}
+
+export namespace PlayerIdentity {
+  export interface Profile {
+    name: string;
+    /**
+     * UUID of the player, with dashes.
+     */
+    uuid: string;
+  }
+
+  export interface CachedProfile extends Profile {
+    /**
+     * Time in milliseconds since the epoch the profile was cached.
+     */
+    cachedAt: number;
+  }
+
+  export interface UserCacheEntry extends Profile {
+    expiresOn?: Date;
+  }
+
+  export interface Options {
+    /**
+     * File resolved online mode profiles are cached in. Default is `ionmc-profiles.json` in the server directory.
+     */
+    cachePath?: string;
+    /**
+     * Time in milliseconds a cached profile is used before looking it up again. Default is 7 days.
+     */
+    cacheTtl?: number;
+    /**
+     * URL of the profile endpoint. Default is `MinecraftApi.profileUrl`.
+     */
+    profileUrl?: string;
+  }
+}
+
+export default PlayerIdentity;
@@ -0,0 +1,162 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+
+/**
+ * Reading and writing of the player list files in a server directory: `ops.json`, `whitelist.json`, `banned-players.json` and `banned-ips.json`.
+ */
+export namespace PlayerLists {
+  export interface Operator {
+    uuid: string;
+    name: string;
+    level: number;
+    bypassesPlayerLimit: boolean;
+  }
+
+  export interface WhitelistEntry {
+    uuid: string;
+    name: string;
+  }
+
+  interface BanBase {
+    created: Date;
+    /**
+     * Who issued the ban. `Server` for the console.
+     */
+    source: string;
+    /**
+     * When the ban ends, or `forever`.
+     */
+    expires: Date | "forever";
+    reason: string;
+  }
+
+  export interface BannedPlayer extends BanBase {
+    uuid: string;
+    name: string;
+  }
+
+  export interface BannedIp extends BanBase {
+    ip: string;
+  }
+
+  export interface BanOptions {
+    reason?: string;
+    source?: string;
+    /**
+     * When the ban ends. Only applied when the server is offline, since the ban commands can't set it. Default is forever.
+     */
+    expires?: Date | "forever";
+  }
+
+  /**
+   * A ban as it's stored in the file, with the dates as text.
+   */
+  export interface RawBan {
+    created?: string;
+    source?: string;
+    expires?: string;
+    reason?: string;
+  }
+
+  /**
+   * Entries of each list as they're stored in the file.
+   */
+  export interface RawEntries {
+    "ops": Operator;
+    "whitelist": WhitelistEntry;
+    "banned-players": RawBan & { uuid: string; name: string };
+    "banned-ips": RawBan & { ip: string };
+  }
+
+  export type ListName = keyof RawEntries;
+
+  export function getPath(serverPath: string, list: ListName) {
+    return Path.join(serverPath, `${list}.json`);
+  }
+
+  /**
+   * Read a list file. A missing file is treated as an empty list.
+   */
+  export async function readRaw<L extends ListName>(serverPath: string, list: L): Promise<RawEntries[L][]> {
+    const data = await fsp.readFile(getPath(serverPath, list), "utf-8").catch(() => null);
+    if (data === null || data.trim() === "") return [];
+    return JSON.parse(data);
+  }
+
+  export async function writeRaw<L extends ListName>(serverPath: string, list: L, entries: RawEntries[L][]) {
+    const path = getPath(serverPath, list);
+    const tmp = `${path}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(entries, null, 2));
+    await fsp.rename(tmp, path);
+  }
+
+  export async function readOperators(serverPath: string): Promise<Operator[]> {
+    return await readRaw(serverPath, "ops");
+  }
+
+  export async function readWhitelist(serverPath: string): Promise<WhitelistEntry[]> {
+    return await readRaw(serverPath, "whitelist");
+  }
+
+  export async function readBannedPlayers(serverPath: string): Promise<BannedPlayer[]> {
+    return (await readRaw(serverPath, "banned-players")).map(entry => ({ ...entry, ...parseBan(entry) }));
+  }
+
+  export async function readBannedIps(serverPath: string): Promise<BannedIp[]> {
+    return (await readRaw(serverPath, "banned-ips")).map(entry => ({ ...entry, ...parseBan(entry) }));
+  }
+
+  export async function writeBannedPlayers(serverPath: string, entries: BannedPlayer[]) {
+    await writeRaw(serverPath, "banned-players", entries.map(e => ({
+      uuid: e.uuid,
+      name: e.name,
+      ...serializeBan(e)
+    })));
+  }
+
+  export async function writeBannedIps(serverPath: string, entries: BannedIp[]) {
+    await writeRaw(serverPath, "banned-ips", entries.map(e => ({
+      ip: e.ip,
+      ...serializeBan(e)
+    })));
+  }
+
+  /**
+   * Format a date the way the server does in ban lists: `2024-01-31 14:05:00 +0000`.
+   */
+  export function formatDate(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+  }
+
+  /**
+   * Parse a date written by the server in ban lists.
+   */
+  export function parseDate(value: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/);
+    if (!match) return new Date(value);
+    const [, y, mo, d, h, mi, s, sign, oh, om] = match;
+    const offset = (sign === "-" ? -1 : 1) * (parseInt(oh) * 60 + parseInt(om));
+    return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s) - offset * 60000);
+  }
+
+  function parseBan(entry: RawBan): BanBase {
+    return {
+      created: entry.created ? parseDate(entry.created) : new Date(0),
+      source: entry.source ?? "Server",
+      expires: !entry.expires || entry.expires === "forever" ? "forever" : parseDate(entry.expires),
+      reason: entry.reason ?? "Banned by an operator."
+    };
+  }
+
+  function serializeBan(entry: BanBase): RawBan {
+    return {
+      created: formatDate(entry.created),
+      source: entry.source,
+      expires: entry.expires === "forever" ? "forever" : formatDate(entry.expires),
+      reason: entry.reason
+    };
+  }
+}
+
+export default PlayerLists;
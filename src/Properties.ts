@@ -0,0 +1,445 @@
+/**
+ * A `.properties` file that keeps its comments, ordering, blank lines and formatting.
+ * Untouched entries are written back exactly as they were read. Entries that are changed are re-encoded with Java's escaping rules.
+ */
+export class PropertiesDocument {
+  private lines: PropertiesDocument.Line[] = [];
+
+  /**
+   * Parse the contents of a `.properties` file.
+   */
+  public static parse(data: string): PropertiesDocument {
+    const doc = new PropertiesDocument();
+    const eol = data.includes("\r\n") ? "\r\n" : "\n";
+    doc.eol = eol;
+    const physical = data.split(/\r?\n/);
+    // A trailing newline leaves an empty last element that isn't a line of its own
+    if (physical.length > 0 && physical[physical.length - 1] === "") {
+      physical.pop();
+      doc.trailingNewline = true;
+    }
+    else {
+      doc.trailingNewline = false;
+    }
+
+    for (let i = 0; i < physical.length; i++) {
+      const first = physical[i];
+      const trimmed = first.trimStart();
+      if (trimmed === "") {
+        doc.lines.push({ kind: "blank", raw: first });
+        continue;
+      }
+      if (trimmed.startsWith("#") || trimmed.startsWith("!")) {
+        doc.lines.push({ kind: "comment", raw: first });
+        continue;
+      }
+
+      // Join continuation lines, which end in an odd number of backslashes
+      const rawLines = [first];
+      let logical = trimmed;
+      while (endsWithContinuation(logical) && i + 1 < physical.length) {
+        logical = logical.slice(0, -1) + physical[++i].trimStart();
+        rawLines.push(physical[i]);
+      }
+      if (endsWithContinuation(logical)) logical = logical.slice(0, -1);
+
+      const { key, value } = splitEntry(logical);
+      doc.lines.push({ kind: "entry", raw: rawLines.join(eol), key, value });
+    }
+    return doc;
+  }
+
+  private eol = "\n";
+  private trailingNewline = true;
+
+  /**
+   * Get the decoded value of a key. Returns undefined if the key is not present.
+   */
+  public get(key: string): string | undefined {
+    return this.findEntry(key)?.value;
+  }
+
+  public has(key: string) {
+    return !!this.findEntry(key);
+  }
+
+  /**
+   * Set the value of a key. Existing keys keep their position, new keys are added at the end.
+   */
+  public set(key: string, value: string): this {
+    const entry = this.findEntry(key);
+    if (entry) {
+      if (entry.value !== value) {
+        entry.value = value;
+        entry.raw = `${escapeKey(key)}=${escapeValue(value)}`;
+      }
+    }
+    else {
+      // Insert before trailing blank lines
+      let index = this.lines.length;
+      while (index > 0 && this.lines[index - 1].kind === "blank") index--;
+      this.lines.splice(index, 0, { kind: "entry", key, value, raw: `${escapeKey(key)}=${escapeValue(value)}` });
+    }
+    return this;
+  }
+
+  /**
+   * Remove a key. Returns true if the key was present.
+   */
+  public delete(key: string): boolean {
+    const before = this.lines.length;
+    this.lines = this.lines.filter(l => l.kind !== "entry" || l.key !== key);
+    return this.lines.length !== before;
+  }
+
+  /**
+   * Add a comment line at the end of the document.
+   */
+  public addComment(comment: string): this {
+    this.lines.push({ kind: "comment", raw: `# ${comment}` });
+    return this;
+  }
+
+  /**
+   * Keys in the order they appear in the document.
+   */
+  public keys(): string[] {
+    return this.lines.filter(l => l.kind === "entry").map(l => l.key!);
+  }
+
+  /**
+   * All entries as decoded strings, in document order.
+   */
+  public toRecord(): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const line of this.lines) {
+      if (line.kind === "entry") record[line.key!] = line.value!;
+    }
+    return record;
+  }
+
+  /**
+   * Serialize the document. Returns the original text if nothing was changed.
+   */
+  public toString(): string {
+    const text = this.lines.map(l => l.raw).join(this.eol);
+    return this.trailingNewline && this.lines.length > 0 ? text + this.eol : text;
+  }
+
+  private findEntry(key: string) {
+    // Java keeps the last occurrence of duplicate keys
+    for (let i = this.lines.length - 1; i >= 0; i--) {
+      const line = this.lines[i];
+      if (line.kind === "entry" && line.key === key) return line;
+    }
+    return undefined;
+  }
+}
+
+export namespace PropertiesDocument {
+  export interface Line {
+    kind: "blank" | "comment" | "entry";
+    /**
+     * Text of the line as it appears in the file. Entries spanning several lines include the line breaks.
+     */
+    raw: string;
+    key?: string;
+    value?: string;
+  }
+
+  /**
+   * Decode Java properties escape sequences.
+   */
+  export function unescape(value: string) {
+    return unescapeProperty(value);
+  }
+
+  /**
+   * Encode a value using Java properties escaping.
+   */
+  export function escape(value: string) {
+    return escapeValue(value);
+  }
+}
+
+function endsWithContinuation(line: string) {
+  let count = 0;
+  for (let i = line.length - 1; i >= 0 && line[i] === "\\"; i--) count++;
+  return count % 2 === 1;
+}
+
+function splitEntry(line: string): { key: string; value: string } {
+  let i = 0;
+  let keyEnd = line.length;
+  for (; i < line.length; i++) {
+    const c = line[i];
+    if (c === "\\") {
+      i++;
+      continue;
+    }
+    if (c === "=" || c === ":" || c === " " || c === "\t" || c === "\f") {
+      keyEnd = i;
+      break;
+    }
+  }
+  let valueStart = keyEnd;
+  while (valueStart < line.length && /[ \t\f]/.test(line[valueStart])) valueStart++;
+  if (valueStart < line.length && (line[valueStart] === "=" || line[valueStart] === ":")) {
+    valueStart++;
+    while (valueStart < line.length && /[ \t\f]/.test(line[valueStart])) valueStart++;
+  }
+  return {
+    key: unescapeProperty(line.slice(0, keyEnd)),
+    value: unescapeProperty(line.slice(valueStart))
+  };
+}
+
+function unescapeProperty(value: string) {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, seq: string) => {
+    if (seq.length === 5) return String.fromCharCode(parseInt(seq.slice(1), 16));
+    switch (seq) {
+      case "t": return "\t";
+      case "n": return "\n";
+      case "r": return "\r";
+      case "f": return "\f";
+      default: return seq;
+    }
+  });
+}
+
+function escapeChars(value: string, escapeAllSpaces: boolean) {
+  let out = "";
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    switch (c) {
+      case "\\": out += "\\\\"; break;
+      case "\t": out += "\\t"; break;
+      case "\n": out += "\\n"; break;
+      case "\r": out += "\\r"; break;
+      case "\f": out += "\\f"; break;
+      case "=": case ":": case "#": case "!":
+        out += "\\" + c;
+        break;
+      case " ":
+        out += escapeAllSpaces || i === 0 ? "\\ " : " ";
+        break;
+      default:
+        out += c;
+    }
+  }
+  return out;
+}
+
+function escapeKey(key: string) {
+  return escapeChars(key, true);
+}
+
+function escapeValue(value: string) {
+  return escapeChars(value, false);
+}
+
+/**
+ * Schema of the vanilla server.properties keys.
+ */
+export namespace ServerProperties {
+  export type Value = string | number | boolean;
+
+  export interface Definition {
+    type: "boolean" | "integer" | "string" | "enum";
+    default: Value;
+    /**
+     * Allowed values for `enum` properties.
+     */
+    values?: string[];
+    min?: number;
+    max?: number;
+    /**
+     * First Minecraft version the property exists in.
+     */
+    since?: string;
+    /**
+     * First Minecraft version the property no longer exists in.
+     */
+    until?: string;
+    description?: string;
+  }
+
+  const bool = (def: boolean, extra?: Partial<Definition>): Definition => ({ type: "boolean", default: def, ...extra });
+  const int = (def: number, min?: number, max?: number, extra?: Partial<Definition>): Definition => ({ type: "integer", default: def, min, max, ...extra });
+  const str = (def: string, extra?: Partial<Definition>): Definition => ({ type: "string", default: def, ...extra });
+  const oneOf = (def: string, values: string[], extra?: Partial<Definition>): Definition => ({ type: "enum", default: def, values, ...extra });
+
+  export const schema: Record<string, Definition> = {
+    "accepts-transfers": bool(false, { since: "1.20.5" }),
+    "allow-flight": bool(false),
+    "allow-nether": bool(true),
+    "announce-player-achievements": bool(true, { until: "1.12" }),
+    "broadcast-console-to-ops": bool(true),
+    "broadcast-rcon-to-ops": bool(true),
+    "bug-report-link": str("", { since: "1.21" }),
+    // Numeric values are accepted for compatibility with old files
+    "difficulty": oneOf("easy", ["peaceful", "easy", "normal", "hard", "0", "1", "2", "3"]),
+    "enable-command-block": bool(false),
+    "enable-jmx-monitoring": bool(false, { since: "1.16" }),
+    "enable-query": bool(false),
+    "enable-rcon": bool(false),
+    "enable-status": bool(true, { since: "1.16" }),
+    "enforce-secure-profile": bool(true, { since: "1.19" }),
+    "enforce-whitelist": bool(false, { since: "1.13" }),
+    "entity-broadcast-range-percentage": int(100, 10, 1000, { since: "1.16" }),
+    "force-gamemode": bool(false),
+    "function-permission-level": int(2, 1, 4, { since: "1.14.4" }),
+    "gamemode": oneOf("survival", ["survival", "creative", "adventure", "spectator", "0", "1", "2", "3"]),
+    "generate-structures": bool(true),
+    "generator-settings": str("{}"),
+    "hardcore": bool(false),
+    "hide-online-players": bool(false, { since: "1.18" }),
+    "initial-disabled-packs": str("", { since: "1.19.3" }),
+    "initial-enabled-packs": str("vanilla", { since: "1.19.3" }),
+    "level-name": str("world"),
+    "level-seed": str(""),
+    "level-type": str("minecraft:normal"),
+    "log-ips": bool(true, { since: "1.20.2" }),
+    "max-build-height": int(256, 64, 256, { until: "1.17" }),
+    "max-chained-neighbor-updates": int(1000000, undefined, undefined, { since: "1.19" }),
+    "max-players": int(20, 0, 2147483647),
+    "max-tick-time": int(60000, -1),
+    "max-world-size": int(29999984, 1, 29999984),
+    "motd": str("A Minecraft Server"),
+    "network-compression-threshold": int(256, -1),
+    "online-mode": bool(true),
+    "op-permission-level": int(4, 0, 4),
+    "pause-when-empty-seconds": int(60, 0, undefined, { since: "1.21.2" }),
+    "player-idle-timeout": int(0, 0),
+    "prevent-proxy-connections": bool(false),
+    "previews-chat": bool(false, { since: "1.19", until: "1.19.3" }),
+    "pvp": bool(true),
+    "query.port": int(25565, 1, 65535),
+    "rate-limit": int(0, 0),
+    "rcon.password": str(""),
+    "rcon.port": int(25575, 1, 65535),
+    "region-file-compression": oneOf("deflate", ["deflate", "lz4", "none"], { since: "1.20.5" }),
+    "require-resource-pack": bool(false, { since: "1.17" }),
+    "resource-pack": str(""),
+    "resource-pack-id": str("", { since: "1.20.3" }),
+    "resource-pack-prompt": str("", { since: "1.17" }),
+    "resource-pack-sha1": str(""),
+    "server-ip": str(""),
+    "server-port": int(25565, 1, 65535),
+    "simulation-distance": int(10, 3, 32, { since: "1.18" }),
+    "snooper-enabled": bool(true, { until: "1.18" }),
+    "spawn-animals": bool(true, { until: "1.21.2" }),
+    "spawn-monsters": bool(true),
+    "spawn-npcs": bool(true, { until: "1.21.2" }),
+    "spawn-protection": int(16, 0),
+    "sync-chunk-writes": bool(true, { since: "1.16" }),
+    "text-filtering-config": str("", { since: "1.17" }),
+    "use-native-transport": bool(true),
+    "view-distance": int(10, 3, 32),
+    "white-list": bool(false),
+  };
+
+  /**
+   * Compare two release versions such as `1.20.4`. Returns null if either is not a release version (e.g. a snapshot).
+   */
+  export function compareVersions(a: string, b: string): number | null {
+    const pa = a.match(/^\d+(\.\d+)*$/) ? a.split(".").map(Number) : null;
+    const pb = b.match(/^\d+(\.\d+)*$/) ? b.split(".").map(Number) : null;
+    if (!pa || !pb) return null;
+    for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+      const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  /**
+   * Check if a known property exists in the given Minecraft version. Unknown properties and non-release versions are always considered available.
+   */
+  export function isAvailable(key: string, version?: string): boolean {
+    const def = schema[key];
+    if (!def || !version) return true;
+    if (def.since && (compareVersions(version, def.since) ?? 0) < 0) return false;
+    if (def.until && (compareVersions(version, def.until) ?? -1) >= 0) return false;
+    return true;
+  }
+
+  /**
+   * Validate a value against the schema. Unknown keys accept any value.
+   * @param version Minecraft version of the server, used to check if the property exists.
+   * @throws Error if the value doesn't fit the property or the property isn't available in the version.
+   */
+  export function validate(key: string, value: Value, version?: string): void {
+    const def = schema[key];
+    if (!def) return;
+
+    if (!isAvailable(key, version)) {
+      throw new Error(`Property ${key} is not available in Minecraft ${version}`);
+    }
+
+    switch (def.type) {
+      case "boolean":
+        if (typeof value !== "boolean") {
+          throw new Error(`Property ${key} must be a boolean, got ${JSON.stringify(value)}`);
+        }
+        break;
+      case "integer":
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+          throw new Error(`Property ${key} must be an integer, got ${JSON.stringify(value)}`);
+        }
+        if (def.min !== undefined && value < def.min) {
+          throw new Error(`Property ${key} must be at least ${def.min}, got ${value}`);
+        }
+        if (def.max !== undefined && value > def.max) {
+          throw new Error(`Property ${key} must be at most ${def.max}, got ${value}`);
+        }
+        break;
+      case "enum":
+        if (!def.values!.includes(String(value))) {
+          throw new Error(`Property ${key} must be one of ${def.values!.join(", ")}, got ${JSON.stringify(value)}`);
+        }
+        break;
+      case "string":
+        if (typeof value !== "string") {
+          throw new Error(`Property ${key} must be a string, got ${JSON.stringify(value)}`);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Convert a raw string value to its typed value. Known keys use their schema type, unknown keys are guessed.
+   * Returns undefined for empty values of boolean and integer properties, such as `rcon.port=`.
+   */
+  export function parseValue(key: string, raw: string): Value | undefined {
+    const def = schema[key];
+    const type = def?.type ?? (
+      raw === "true" || raw === "false" ? "boolean"
+        : /^-?\d{1,15}$/.test(raw) ? "integer"
+          : "string"
+    );
+
+    switch (type) {
+      case "boolean":
+        if (raw === "true") return true;
+        if (raw === "false") return false;
+        return raw === "" ? undefined : raw;
+      case "integer": {
+        if (raw.trim() === "") return undefined;
+        const n = Number(raw);
+        return Number.isInteger(n) ? n : raw;
+      }
+      default:
+        return raw;
+    }
+  }
+
+  /**
+   * Convert a typed value to the string stored in the file.
+   */
+  export function stringifyValue(value: Value): string {
+    return String(value);
+  }
+}
+
+export default PropertiesDocument;
@@ -0,0 +1,212 @@
+import dgram from "node:dgram";
+import crypto from "node:crypto";
+
+/**
+ * Client for the GameSpy4 query protocol, available when `enable-query=true` is set in server.properties.
+ */
+export namespace Query {
+  export interface BasicStat {
+    motd: string;
+    gameType: string;
+    map: string;
+    numPlayers: number;
+    maxPlayers: number;
+    hostPort: number;
+    hostIp: string;
+  }
+
+  export interface FullStat extends BasicStat {
+    gameId: string;
+    version: string;
+    /**
+     * Server software as reported in the `plugins` field, e.g. `Paper on 1.20.4`. Empty on vanilla.
+     */
+    software: string;
+    /**
+     * Plugins as reported in the `plugins` field. Empty on vanilla.
+     */
+    plugins: string[];
+    /**
+     * Full list of online player names.
+     */
+    players: string[];
+    /**
+     * All key/value pairs as sent by the server.
+     */
+    raw: Record<string, string>;
+  }
+
+  export interface Options {
+    /**
+     * Time in milliseconds to wait for each response. Default is 5000.
+     */
+    timeout?: number;
+  }
+
+  enum PacketType {
+    Stat = 0x00,
+    Handshake = 0x09
+  }
+
+  /**
+   * Request basic stats from a server: MOTD, game type, map, player count and host info.
+   */
+  export async function basicStat(host: string, port: number = 25565, opts?: Options): Promise<BasicStat> {
+    return await withSocket(host, port, opts, async (request, sessionId) => {
+      const token = await handshake(request, sessionId);
+      const data = await request(PacketType.Stat, sessionId, token);
+      return parseBasicStat(data);
+    });
+  }
+
+  /**
+   * Request full stats from a server. Includes everything from basic stats plus the version, plugins and full player list.
+   */
+  export async function fullStat(host: string, port: number = 25565, opts?: Options): Promise<FullStat> {
+    return await withSocket(host, port, opts, async (request, sessionId) => {
+      const token = await handshake(request, sessionId);
+      const payload = Buffer.alloc(8);
+      payload.writeInt32BE(token, 0); // Followed by 4 bytes of padding, which makes it a full stat request
+      const data = await request(PacketType.Stat, sessionId, payload);
+      return parseFullStat(data);
+    });
+  }
+
+  /**
+   * Parse the payload of a basic stat response.
+   */
+  export function parseBasicStat(data: Buffer): BasicStat {
+    let offset = 0;
+    const next = () => {
+      const end = data.indexOf(0, offset);
+      const value = data.toString("latin1", offset, end === -1 ? data.length : end);
+      offset = end === -1 ? data.length : end + 1;
+      return value;
+    };
+
+    const motd = next();
+    const gameType = next();
+    const map = next();
+    const numPlayers = parseInt(next()) || 0;
+    const maxPlayers = parseInt(next()) || 0;
+    const hostPort = data.readUInt16LE(offset);
+    offset += 2;
+    const hostIp = next();
+
+    return { motd, gameType, map, numPlayers, maxPlayers, hostPort, hostIp };
+  }
+
+  /**
+   * Parse the payload of a full stat response.
+   */
+  export function parseFullStat(data: Buffer): FullStat {
+    // "splitnum\0\x80\0" padding
+    let offset = 11;
+    const next = () => {
+      const end = data.indexOf(0, offset);
+      const value = data.toString("utf-8", offset, end === -1 ? data.length : end);
+      offset = end === -1 ? data.length : end + 1;
+      return value;
+    };
+
+    const raw: Record<string, string> = {};
+    let key: string;
+    while (offset < data.length && (key = next()) !== "") {
+      raw[key] = next();
+    }
+
+    // "\x01player_\0\0" padding
+    offset += 10;
+    const players: string[] = [];
+    let player: string;
+    while (offset < data.length && (player = next()) !== "") {
+      players.push(player);
+    }
+
+    const { software, plugins } = parsePlugins(raw["plugins"] ?? "");
+
+    return {
+      motd: raw["hostname"] ?? "",
+      gameType: raw["gametype"] ?? "",
+      gameId: raw["game_id"] ?? "",
+      version: raw["version"] ?? "",
+      map: raw["map"] ?? "",
+      numPlayers: parseInt(raw["numplayers"]) || 0,
+      maxPlayers: parseInt(raw["maxplayers"]) || 0,
+      hostPort: parseInt(raw["hostport"]) || 0,
+      hostIp: raw["hostip"] ?? "",
+      software,
+      plugins,
+      players,
+      raw
+    };
+  }
+
+  /**
+   * Split the `plugins` field, formatted as `Software: Plugin 1.0; Other 2.0`.
+   */
+  export function parsePlugins(value: string): { software: string; plugins: string[] } {
+    if (!value) return { software: "", plugins: [] };
+    const index = value.indexOf(":");
+    if (index === -1) return { software: value.trim(), plugins: [] };
+    return {
+      software: value.slice(0, index).trim(),
+      plugins: value.slice(index + 1).split(";").map(p => p.trim()).filter(Boolean)
+    };
+  }
+
+  type RequestFn = (type: PacketType, sessionId: number, payload?: number | Buffer) => Promise<Buffer>;
+
+  async function handshake(request: RequestFn, sessionId: number): Promise<number> {
+    const data = await request(PacketType.Handshake, sessionId);
+    const token = parseInt(data.toString("latin1", 0, data.indexOf(0) === -1 ? data.length : data.indexOf(0)));
+    if (isNaN(token)) throw new Error("Invalid challenge token");
+    return token;
+  }
+
+  function withSocket<T>(host: string, port: number, opts: Options | undefined, fn: (request: RequestFn, sessionId: number) => Promise<T>): Promise<T> {
+    const timeout = opts?.timeout ?? 5000;
+    const socket = dgram.createSocket("udp4");
+    // Only the lower 4 bits of each byte are used by the server
+    const sessionId = crypto.randomBytes(4).readInt32BE(0) & 0x0F0F0F0F;
+
+    let current: { type: PacketType; resolve: (data: Buffer) => void; reject: (err: Error) => void } | null = null;
+
+    socket.on("message", (msg) => {
+      if (!current || msg.length < 5) return;
+      if (msg.readUInt8(0) !== current.type || msg.readInt32BE(1) !== sessionId) return;
+      current.resolve(msg.subarray(5));
+    });
+    socket.on("error", (err) => current?.reject(err));
+
+    const request: RequestFn = (type, sessionId, payload) => new Promise<Buffer>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        current = null;
+        reject(new Error(`Query to ${host}:${port} timed out after ${timeout}ms`));
+      }, timeout);
+      current = {
+        type,
+        resolve: (data) => { clearTimeout(timer); current = null; resolve(data); },
+        reject: (err) => { clearTimeout(timer); current = null; reject(err); }
+      };
+
+      let body: Buffer;
+      if (payload === undefined) body = Buffer.alloc(0);
+      else if (typeof payload === "number") {
+        body = Buffer.alloc(4);
+        body.writeInt32BE(payload);
+      }
+      else body = payload;
+
+      const header = Buffer.alloc(7);
+      header.writeUInt16BE(0xfefd, 0);
+      header.writeUInt8(type, 2);
+      header.writeInt32BE(sessionId, 3);
+      socket.send(Buffer.concat([header, body]), port, host);
+    });
+
+    return fn(request, sessionId).finally(() => socket.close());
+  }
+}
+
+export default Query;
@@ -1,19 +1,63 @@
 import net from "node:net";
+import EventEmitter from "node:events";
+import { wait } from "./Utilities";
 
 /**
  * RCON class for connecting to a Minecraft RCON server
+ *
+ * Responses are matched to requests by their request id, so multiple `send()` calls can be made concurrently.
+ * Commands are queued and sent one at a time, each followed by an empty marker packet. The server answers packets in order,
+ * so the marker's reply marks the end of a response that was split across several packets.
  */
-export class RCON {
-  private socket: net.Socket;
-  private requestId: number;
-  private responseBuffer: Buffer | null;
+export class RCON extends EventEmitter {
+  private socket: net.Socket | null = null;
+  private requestId: number = 0;
+  private responseBuffer: Buffer = Buffer.alloc(0);
+  private pending = new Map<number, RCON.PendingRequest>();
+  private queue: RCON.QueuedCommand[] = [];
+  private processing = false;
+  private connection: { host: string; port: number; password: string } | null = null;
+  private closing = false;
+  private reconnecting: Promise<void> | null = null;
 
-  constructor() {
-    this.socket = new net.Socket();
-    this.requestId = 0; // Increment with each request
-    this.responseBuffer = null; // Buffer to collect fragmented responses
+  /**
+   * Default timeout in milliseconds for authentication and each command.
+   */
+  public timeout: number;
+
+  /**
+   * Reconnect and re-authenticate automatically when the connection is lost.
+   */
+  public autoReconnect: boolean;
+
+  /**
+   * Delay in milliseconds between reconnect attempts.
+   */
+  public reconnectDelay: number;
+
+  /**
+   * Maximum number of reconnect attempts before giving up. Queued commands are rejected when it gives up.
+   */
+  public maxReconnectAttempts: number;
+
+  constructor(opts?: RCON.Options) {
+    super();
+    opts ??= {};
+    this.timeout = opts.timeout ?? 5000;
+    this.autoReconnect = opts.autoReconnect ?? true;
+    this.reconnectDelay = opts.reconnectDelay ?? 1000;
+    this.maxReconnectAttempts = opts.maxReconnectAttempts ?? 5;
   }
 
+  /**
+   * Whether the client is connected and authenticated.
+   */
+  public get connected() {
+    return !!this.socket && this.authenticated;
+  }
+
+  private authenticated = false;
+
   /**
    * Connects to the RCON server
    * @param host - Hostname or IP of the RCON server
@@ -21,118 +65,279 @@ export class RCON {
    * @param password - RCON password for authentication
    * @returns Promise that resolves when authenticated
    */
-  public connect(host: string, port: number, password: string): Promise<void> {
+  public async connect(host: string, port: number, password: string): Promise<void> {
+    this.connection = { host, port, password };
+    this.closing = false;
+    await this.open();
+  }
+
+  /**
+   * Open the socket and authenticate using the stored connection details.
+   */
+  private open(): Promise<void> {
+    const { host, port, password } = this.connection!;
     return new Promise((resolve, reject) => {
-      this.socket.connect(port, host, () => {
-        // Send the auth packet after connecting
-        this.sendPacket(this.requestId++, 3, password)
-          .then((response) => {
-            if (response.id === -1) {
-              reject(new Error("Authentication failed"));
-            } else {
-              resolve();
-            }
-          })
-          .catch(reject);
-      });
+      const socket = new net.Socket();
+      this.socket = socket;
+      this.responseBuffer = Buffer.alloc(0);
+      this.authenticated = false;
 
-      this.socket.on("error", (err) => {
+      const onConnectError = (err: Error) => {
+        this.socket = null;
         reject(err);
+      };
+      socket.once("error", onConnectError);
+
+      socket.on("data", (data) => this.handleData(data));
+
+      socket.on("close", (hadError) => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        this.authenticated = false;
+        this.rejectPending(new Error("RCON connection closed"));
+        this.emit("close", hadError);
+
+        if (!this.closing && this.autoReconnect && this.connection) {
+          this.reconnect().catch(() => { /* Reported through the "error" event */ });
+        }
+        else {
+          // Nothing will send the queued commands anymore
+          this.rejectQueue(new Error("RCON connection closed"));
+        }
+      });
+
+      socket.connect(port, host, () => {
+        socket.off("error", onConnectError);
+        socket.on("error", (err) => {
+          if (this.listenerCount("error") > 0) this.emit("error", err);
+        });
+
+        const id = this.nextId();
+        this.request(id, RCON.PacketType.Auth, password, this.timeout, true)
+          .then(() => {
+            this.authenticated = true;
+            resolve();
+            this.processQueue();
+          })
+          .catch((err) => {
+            // Detach the socket first so closing it doesn't trigger a reconnect
+            this.socket = null;
+            socket.destroy();
+            // While reconnecting, the queue is kept for the next attempt
+            if (!this.reconnecting) this.rejectQueue(err);
+            reject(err);
+          });
       });
     });
   }
 
-  public async disconnect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.socket.end(() => {
-        resolve();
-      });
+  /**
+   * Reconnect and re-authenticate with the stored connection details.
+   */
+  private reconnect(): Promise<void> {
+    if (this.reconnecting) return this.reconnecting;
+    this.reconnecting = (async () => {
+      let lastError: Error | undefined;
+      for (let attempt = 1; attempt <= this.maxReconnectAttempts; attempt++) {
+        await wait(this.reconnectDelay);
+        if (this.closing) return;
+        try {
+          await this.open();
+          this.emit("reconnect", attempt);
+          return;
+        } catch (error) {
+          lastError = error as Error;
+          // Authentication failures will not fix themselves
+          if (lastError.message === "Authentication failed") break;
+        }
+      }
+      const err = new Error(`Failed to reconnect to RCON: ${lastError?.message}`);
+      this.rejectQueue(err);
+      if (this.listenerCount("error") > 0) this.emit("error", err);
+      throw err;
+    })().finally(() => {
+      this.reconnecting = null;
+    });
+    return this.reconnecting;
+  }
 
-      this.socket.on("error", (err) => {
-        reject(err);
-      });
+  public async disconnect(): Promise<void> {
+    this.closing = true;
+    const socket = this.socket;
+    this.rejectQueue(new Error("RCON disconnected"));
+    if (!socket) return;
+    return new Promise((resolve) => {
+      socket.once("close", () => resolve());
+      socket.end();
     });
   }
 
   /**
    * Sends a command to the RCON server
    * @param command - Command to execute on the server
+   * @param opts - Options for this command
    * @returns Promise that resolves with the command response
    */
-  public async send(command: string): Promise<string> {
-    return this.sendPacket(this.requestId++, 2, command).then((response) => {
-      return response.body;
+  public send(command: string, opts?: RCON.SendOptions): Promise<string> {
+    if (!this.connection || this.closing || (!this.socket && !this.reconnecting)) {
+      return Promise.reject(new Error("RCON is not connected"));
+    }
+    return new Promise((resolve, reject) => {
+      this.queue.push({ command, timeout: opts?.timeout ?? this.timeout, resolve, reject });
+      this.processQueue();
     });
   }
 
   /**
-   * Sends a packet to the RCON server
+   * Sends queued commands one at a time while authenticated.
+   */
+  private async processQueue() {
+    if (this.processing) return;
+    this.processing = true;
+    try {
+      while (this.queue.length > 0 && this.connected) {
+        const item = this.queue.shift()!;
+        try {
+          item.resolve(await this.request(this.nextId(), RCON.PacketType.Command, item.command, item.timeout));
+        } catch (error) {
+          item.reject(error as Error);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Sends a packet and waits for its full response.
    * @param id - Request ID
-   * @param type - Packet type (3 for auth, 2 for command)
+   * @param type - Packet type
    * @param body - Packet body (auth password or command)
-   * @returns Promise that resolves with the server's response
+   * @param timeout - Time in milliseconds to wait for the response
+   * @param auth - Whether this is an authentication request
+   * @returns Promise that resolves with the server's response body
    */
-  private async sendPacket(id: number, type: number, body: string): Promise<{ id: number; body: string }> {
+  private request(id: number, type: RCON.PacketType, body: string, timeout: number, auth = false): Promise<string> {
     return new Promise((resolve, reject) => {
-      const packet = this.createPacket(id, type, body);
-      
-      this.socket.write(packet);
-
-      const onData = (data: Buffer) => {
-        this.handleResponse(data)
-          .then(resolve)
-          .catch(reject);
+      if (!this.socket) {
+        return reject(new Error("RCON is not connected"));
+      }
+
+      const markerId = auth ? null : this.nextId();
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        if (markerId !== null) this.pending.delete(markerId);
+        reject(new Error(`RCON request timed out after ${timeout}ms: ${auth ? "authentication" : body}`));
+      }, timeout);
+
+      const request: RCON.PendingRequest = {
+        id,
+        markerId,
+        auth,
+        chunks: [],
+        timer,
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (err) => {
+          clearTimeout(timer);
+          reject(err);
+        }
       };
 
-      // Bind to 'data' event once for the next incoming data packet
-      this.socket.once("data", onData);
+      this.pending.set(id, request);
+      this.socket.write(this.createPacket(id, type, body));
 
-      this.socket.once("error", (err) => {
-        reject(err);
-      });
+      if (markerId !== null) {
+        this.pending.set(markerId, request);
+        this.socket.write(this.createPacket(markerId, RCON.PacketType.Response, ""));
+      }
     });
   }
 
   /**
-   * Handles receiving responses from the server, buffering if necessary
-   * @param data - Incoming data from the server
-   * @returns Promise that resolves with the full response data
+   * Buffers incoming data and dispatches every complete packet.
    */
-  private async handleResponse(data: Buffer): Promise<{ id: number; body: string }> {
-    return new Promise((resolve, reject) => {
-      // Append the received data to the buffer
-      if (this.responseBuffer) {
-        this.responseBuffer = Buffer.concat([this.responseBuffer, data]);
-      } else {
-        this.responseBuffer = data;
+  private handleData(data: Buffer) {
+    this.responseBuffer = Buffer.concat([this.responseBuffer, data]);
+
+    while (this.responseBuffer.length >= 4) {
+      const length = this.responseBuffer.readInt32LE(0);
+      if (length < 10) {
+        // Malformed packet, the stream can't be trusted anymore
+        this.responseBuffer = Buffer.alloc(0);
+        this.socket?.destroy(new Error(`Invalid RCON packet length ${length}`));
+        return;
       }
+      if (this.responseBuffer.length < length + 4) return;
+
+      const packet: RCON.Packet = {
+        id: this.responseBuffer.readInt32LE(4),
+        type: this.responseBuffer.readInt32LE(8),
+        body: this.responseBuffer.toString("utf-8", 12, length + 2)
+      };
+      this.responseBuffer = this.responseBuffer.subarray(length + 4);
+      this.handlePacket(packet);
+    }
+  }
 
-      // Ensure we have at least 12 bytes for a valid packet (header size)
-      if (this.responseBuffer.length >= 12) {
-        const length = this.responseBuffer.readInt32LE(0); // Total packet length
-        if (this.responseBuffer.length >= length + 4) {
-          const id = this.responseBuffer.readInt32LE(4);
-          const body = this.responseBuffer.toString("utf-8", 12, length + 2); // Extract body
-          
-          // Reset the buffer for the next packet
-          this.responseBuffer = null;
-          resolve({ id, body });
+  private handlePacket(packet: RCON.Packet) {
+    if (packet.id === -1) {
+      // Failed authentication is answered with id -1
+      for (const request of this.pending.values()) {
+        if (request.auth) {
+          this.pending.delete(request.id);
+          request.reject(new Error("Authentication failed"));
         }
-      } else {
-        // Keep waiting for more data if the packet isn't complete yet
-        reject(new Error("Incomplete packet received"));
       }
-    });
+      return;
+    }
+
+    const request = this.pending.get(packet.id);
+    if (!request) return;
+
+    if (request.auth) {
+      // Some servers send an empty response value before the auth response
+      if (packet.type !== RCON.PacketType.AuthResponse) return;
+      this.pending.delete(request.id);
+      request.resolve("");
+      return;
+    }
+
+    if (packet.id === request.markerId) {
+      this.pending.delete(request.id);
+      this.pending.delete(request.markerId);
+      request.resolve(request.chunks.join(""));
+    }
+    else {
+      request.chunks.push(packet.body);
+    }
+  }
+
+  private rejectPending(err: Error) {
+    const requests = new Set(this.pending.values());
+    this.pending.clear();
+    for (const request of requests) request.reject(err);
+  }
+
+  private rejectQueue(err: Error) {
+    for (const item of this.queue.splice(0)) item.reject(err);
+  }
+
+  private nextId() {
+    this.requestId = (this.requestId + 1) % 0x7fffffff;
+    return this.requestId;
   }
 
   /**
    * Creates an RCON packet with the specified parameters
    * @param id - Request ID
-   * @param type - Packet type (3 for auth, 2 for command)
+   * @param type - Packet type
    * @param body - Packet body (auth password or command)
    * @returns Buffer containing the packet
    */
-  private createPacket(id: number, type: number, body: string): Buffer {
+  private createPacket(id: number, type: RCON.PacketType, body: string): Buffer {
     const length = Buffer.byteLength(body) + 14;
     const buffer = Buffer.alloc(length);
 
@@ -146,4 +351,84 @@ export class RCON {
   }
 }
 
-export default RCON;
\ No newline at end of file
+export interface RCON {
+  // Connection closed
+  emit(event: "close", hadError: boolean): boolean;
+  on(event: "close", listener: (hadError: boolean) => void): this;
+  once(event: "close", listener: (hadError: boolean) => void): this;
+  off(event: "close", listener: (hadError: boolean) => void): this;
+
+  // Reconnected and re-authenticated
+  emit(event: "reconnect", attempt: number): boolean;
+  on(event: "reconnect", listener: (attempt: number) => void): this;
+  once(event: "reconnect", listener: (attempt: number) => void): this;
+  off(event: "reconnect", listener: (attempt: number) => void): this;
+
+  // Error
+  emit(event: "error", error: Error): boolean;
+  on(event: "error", listener: (error: Error) => void): this;
+  once(event: "error", listener: (error: Error) => void): this;
+  off(event: "error", listener: (error: Error) => void): this;
+}
+
+export namespace RCON {
+  export enum PacketType {
+    Response = 0,
+    AuthResponse = 2,
+    Command = 2,
+    Auth = 3
+  }
+
+  export interface Options {
+    /**
+     * Default timeout in milliseconds for authentication and each command. Default is 5000.
+     */
+    timeout?: number;
+    /**
+     * Reconnect and re-authenticate automatically when the connection is lost. Default is true.
+     */
+    autoReconnect?: boolean;
+    /**
+     * Delay in milliseconds between reconnect attempts. Default is 1000.
+     */
+    reconnectDelay?: number;
+    /**
+     * Maximum number of reconnect attempts. Default is 5.
+     */
+    maxReconnectAttempts?: number;
+  }
+
+  export interface SendOptions {
+    /**
+     * Timeout in milliseconds for this command. Default is the client's `timeout`.
+     */
+    timeout?: number;
+  }
+
+  export interface Packet {
+    id: number;
+    type: number;
+    body: string;
+  }
+
+  /** @internal */
+  export interface PendingRequest {
+    id: number;
+    markerId: number | null;
+    auth: boolean;
+    chunks: string[];
+    timer: NodeJS.Timeout;
+    resolve: (body: string) => void;
+    reject: (err: Error) => void;
+  }
+
+  /** @internal */
+  export interface QueuedCommand {
+    command: string;
+    timeout: number;
+    resolve: (body: string) => void;
+    reject: (err: Error) => void;
+  }
+}
+
+export default RCON;
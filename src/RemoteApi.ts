@@ -0,0 +1,596 @@
+import http from "node:http";
+import crypto from "node:crypto";
+import { Duplex } from "node:stream";
+import EventEmitter from "node:events";
+import Server from "./objects/Server";
+import ServerManager from "./objects/ServerManager";
+
+/**
+ * HTTP and WebSocket API for controlling servers remotely, such as from a web panel.
+ *
+ * REST endpoints, relative to `basePath`:
+ * - `GET /servers` List the servers and their status. Filter with `?group=` when serving a `ServerManager`.
+ * - `GET /servers/:name` Status and players of a server.
+ * - `POST /servers/:name/start`, `/stop`, `/restart` and `/kill`
+ * - `POST /servers/:name/command` Run `{ "command": "..." }` and respond with the lines of its output.
+ * - `GET /servers/:name/properties` and `PATCH /servers/:name/properties` with an object of properties to set.
+ * - `GET /servers/:name/players` Online players with their UUIDs.
+ * - `POST /groups/:group/start` and `/stop` when serving a `ServerManager`.
+ *
+ * The console of a server is streamed over a WebSocket at `/servers/:name/console?color=html`.
+ * Every line of output is sent as `{ "type": "data", "line": "...", "data": { ... } }`, and text messages received are sent to the console as commands.
+ * Browsers can't set headers on WebSockets, so the token can also be passed as `?token=`.
+ *
+ * Every request needs one of `tokens` as a bearer token, unless the API is created with `allowAnonymous`.
+ */
+export class RemoteApi extends EventEmitter {
+  public options: RemoteApi.ResolvedOptions;
+
+  /**
+   * HTTP server created by `listen`. Undefined if the API is attached to another server.
+   */
+  public httpServer?: http.Server;
+
+  private sockets = new Set<WebSocketConnection>();
+
+  constructor(
+    /**
+     * A single server, a manager or a map of servers by name.
+     */
+    public readonly target: Server | ServerManager | Record<string, Server>,
+    opts?: RemoteApi.Options
+  ) {
+    super();
+    this.options = {
+      name: "server",
+      tokens: [],
+      cors: null,
+      basePath: "",
+      colorMode: Server.ColorMode.None,
+      bodyLimit: 1024 * 1024,
+      allowAnonymous: false,
+      ...opts
+    };
+    if (typeof this.options.tokens === "string") {
+      this.options.tokens = [this.options.tokens];
+    }
+    this.options.tokens = this.options.tokens.filter(Boolean);
+    if (this.options.tokens.length === 0 && !this.options.allowAnonymous) {
+      throw new Error("RemoteApi needs at least one token. Set `allowAnonymous` to serve the API without authentication.");
+    }
+  }
+
+  /**
+   * Create an HTTP server for the API and start listening.
+   */
+  public listen(port: number, host?: string): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+      if (!this.handleRequest(req, res)) {
+        this.sendJson(req, res, 404, { error: "Not found" });
+      }
+    });
+    server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
+    this.httpServer = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => {
+        server.off("error", reject);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Serve the API from an existing HTTP server. Requests outside `basePath` are left to the other handlers of the server.
+   */
+  public attach(server: http.Server) {
+    server.on("request", (req, res) => this.handleRequest(req, res));
+    server.on("upgrade", (req, socket, head) => this.handleUpgrade(req, socket, head));
+  }
+
+  /**
+   * Close every WebSocket and the HTTP server created by `listen`.
+   */
+  public async close() {
+    for (const socket of this.sockets) {
+      socket.close(1001, "Server shutting down");
+    }
+    this.sockets.clear();
+    if (this.httpServer) {
+      const server = this.httpServer;
+      this.httpServer = undefined;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Names of the servers served by the API.
+   * @param group Only list servers in this group. Only applies to a `ServerManager`.
+   */
+  public getServerNames(group?: string): string[] {
+    const target = this.target;
+    if (target instanceof Server) return [this.options.name];
+    if (target instanceof ServerManager) {
+      const servers = target.list(group);
+      return target.names().filter(name => servers.includes(target.get(name)!));
+    }
+    return Object.keys(target);
+  }
+
+  public getServer(name: string): Server | undefined {
+    const target = this.target;
+    if (target instanceof Server) return name === this.options.name ? target : undefined;
+    if (target instanceof ServerManager) return target.get(name);
+    return Object.prototype.hasOwnProperty.call(target, name) ? target[name] : undefined;
+  }
+
+  /**
+   * Handle a request if it's for the API.
+   * @returns False if the request is outside `basePath` and was not handled.
+   */
+  public handleRequest(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const route = this.getRoute(req);
+    if (!route) return false;
+
+    if (req.method === "OPTIONS") {
+      this.setCorsHeaders(req, res);
+      res.writeHead(204, {
+        "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type",
+        "Access-Control-Max-Age": "600"
+      });
+      res.end();
+      return true;
+    }
+
+    if (!route.parts) {
+      this.sendJson(req, res, 400, { error: "Malformed path" });
+      return true;
+    }
+
+    if (!this.isAuthorized(req, route.url)) {
+      this.sendJson(req, res, 401, { error: "Unauthorized" }, { "WWW-Authenticate": "Bearer" });
+      return true;
+    }
+
+    this.route(req, route.parts, route.url)
+      .then(([status, body]) => this.sendJson(req, res, status, body))
+      .catch((error) => {
+        const status = error instanceof RemoteApi.ApiError ? error.status : 500;
+        this.sendJson(req, res, status, { error: error?.message ?? String(error) });
+        // Without a listener, emitting "error" would throw
+        if (status === 500 && this.listenerCount("error") > 0) this.emit("error", error);
+      });
+    return true;
+  }
+
+  /**
+   * Split the path of a request into its decoded parts, relative to `basePath`.
+   * @returns The route, with null parts if the path is malformed, or null if the request is outside `basePath`.
+   */
+  private getRoute(req: http.IncomingMessage): { url: URL; parts: string[] | null } | null {
+    const base = this.options.basePath.replace(/\/+$/, "");
+    let url: URL;
+    try {
+      url = new URL(req.url ?? "/", "http://localhost");
+    }
+    catch {
+      return !base || req.url?.startsWith(base) ? { url: new URL("http://localhost"), parts: null } : null;
+    }
+    if (base && url.pathname !== base && !url.pathname.startsWith(base + "/")) return null;
+    let parts: string[] | null;
+    try {
+      parts = url.pathname.slice(base.length).split("/").filter(Boolean).map(decodeURIComponent);
+    }
+    catch {
+      // Malformed percent-encoding
+      parts = null;
+    }
+    return { url, parts };
+  }
+
+  private async route(req: http.IncomingMessage, parts: string[], url: URL): Promise<[number, unknown]> {
+    const method = req.method ?? "GET";
+    const [section, name, action, ...rest] = parts;
+
+    if (section === "servers" && !name && method === "GET") {
+      const group = url.searchParams.get("group") ?? undefined;
+      return [200, this.getServerNames(group).map(name => this.describe(name, this.getServer(name)!))];
+    }
+
+    if (section === "groups" && name && !rest.length && method === "POST" && (action === "start" || action === "stop")) {
+      if (!(this.target instanceof ServerManager)) throw new RemoteApi.ApiError(404, "Groups are only available for a server manager");
+      if (action === "start") await this.target.start(name);
+      else await this.target.stop(name);
+      return [200, this.getServerNames(name).map(name => this.describe(name, this.getServer(name)!))];
+    }
+
+    if (section !== "servers" || !name || rest.length) throw new RemoteApi.ApiError(404, "Not found");
+    const server = this.getServer(name);
+    if (!server) throw new RemoteApi.ApiError(404, `Server ${name} not found`);
+
+    switch (`${method} ${action ?? ""}`) {
+      case "GET ":
+        return [200, this.describe(name, server)];
+
+      case "POST start":
+        if (server.isRunning()) throw new RemoteApi.ApiError(409, "Server is already running");
+        await server.start();
+        return [202, this.describe(name, server)];
+
+      case "POST stop":
+        if (!server.isRunning()) throw new RemoteApi.ApiError(409, "Server is not running");
+        await server.stop();
+        return [200, this.describe(name, server)];
+
+      case "POST restart":
+        if (server.isRunning()) await server.stop();
+        await server.start();
+        return [202, this.describe(name, server)];
+
+      case "POST kill":
+        if (!server.isRunning()) throw new RemoteApi.ApiError(409, "Server is not running");
+        server.kill();
+        return [202, this.describe(name, server)];
+
+      case "POST command": {
+        const body = await this.readJson(req);
+        const input = RemoteApi.isObject(body) ? body.command : undefined;
+        if (typeof input !== "string" || !input) throw new RemoteApi.ApiError(400, "Expected a command");
+        if (!server.isRunning()) throw new RemoteApi.ApiError(409, "Server is not running");
+        const { command, lines, via } = await server.execute(input);
+        return [200, { command, lines, via }];
+      }
+
+      case "GET properties":
+        if (Object.keys(server.properties).length === 0) await server.loadProperties();
+        return [200, server.properties];
+
+      case "PATCH properties": {
+        const body = await this.readJson(req);
+        if (!RemoteApi.isObject(body)) throw new RemoteApi.ApiError(400, "Expected an object of properties");
+        if (Object.keys(server.properties).length === 0) await server.loadProperties();
+        try {
+          for (const [key, value] of Object.entries(body)) {
+            if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+              throw new Error(`Property ${key} must be a string, number or boolean`);
+            }
+            server.setProperty(key, value);
+          }
+        }
+        catch (error: unknown) {
+          // Keep the file as it was if any property is invalid
+          await server.loadProperties();
+          throw new RemoteApi.ApiError(400, error instanceof Error ? error.message : String(error));
+        }
+        await server.saveProperties();
+        return [200, server.properties];
+      }
+
+      case "GET players":
+        return [200, this.getPlayers(server)];
+    }
+    throw new RemoteApi.ApiError(method === "GET" || method === "POST" || method === "PATCH" ? 404 : 405, "Not found");
+  }
+
+  private describe(name: string, server: Server) {
+    return {
+      name,
+      type: ServerManager.getTypeName(server),
+      version: server.version,
+      status: server.getStatus(),
+      players: this.getPlayers(server)
+    };
+  }
+
+  private getPlayers(server: Server) {
+    return [...server.players].map(([name, uuid]) => ({ name, uuid }));
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  private readJson(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.options.bodyLimit) {
+          reject(new RemoteApi.ApiError(413, "Request body too large"));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => {
+        const text = Buffer.concat(chunks).toString("utf-8");
+        if (!text) return resolve(undefined);
+        try {
+          resolve(JSON.parse(text));
+        }
+        catch {
+          reject(new RemoteApi.ApiError(400, "Invalid JSON"));
+        }
+      });
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(req: http.IncomingMessage, res: http.ServerResponse, status: number, body: unknown, headers?: Record<string, string>) {
+    if (res.headersSent) return;
+    this.setCorsHeaders(req, res);
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse) {
+    const cors = this.options.cors;
+    const origin = req.headers.origin;
+    if (!cors || !origin) return;
+    const origins = cors.origins;
+    if (origins === "*") {
+      res.setHeader("Access-Control-Allow-Origin", cors.credentials ? origin : "*");
+    }
+    else if (origins.includes(origin)) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+    }
+    else {
+      return;
+    }
+    res.setHeader("Vary", "Origin");
+    if (cors.credentials) res.setHeader("Access-Control-Allow-Credentials", "true");
+  }
+
+  private isAuthorized(req: http.IncomingMessage, url: URL): boolean {
+    const tokens = this.options.tokens as string[];
+    // The constructor only allows no tokens with `allowAnonymous`
+    if (tokens.length === 0) return true;
+
+    const header = req.headers.authorization;
+    const token = header?.startsWith("Bearer ") ? header.slice(7).trim() : url.searchParams.get("token");
+    if (!token) return false;
+    const given = crypto.createHash("sha256").update(token).digest();
+    return tokens.some(t => crypto.timingSafeEqual(crypto.createHash("sha256").update(t).digest(), given));
+  }
+
+  private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer) {
+    const route = this.getRoute(req);
+    if (!route) return; // Left to other upgrade handlers
+
+    const reject = (status: number, message: string) => {
+      socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    };
+
+    if (!route.parts) return reject(400, "Bad Request");
+    const [section, name, action, ...rest] = route.parts;
+    const server = section === "servers" && action === "console" && !rest.length ? this.getServer(name) : undefined;
+    if (!server) return reject(404, "Not Found");
+    if (!this.isAuthorized(req, route.url)) return reject(401, "Unauthorized");
+
+    const key = req.headers["sec-websocket-key"];
+    if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") return reject(400, "Bad Request");
+
+    const colorModes: Record<string, Server.ColorMode> = {
+      terminal: Server.ColorMode.Terminal,
+      html: Server.ColorMode.HTML,
+      none: Server.ColorMode.None,
+    };
+    const colorParam = route.url.searchParams.get("color")?.toLowerCase();
+    const colorMode = colorParam && colorParam in colorModes ? colorModes[colorParam] : this.options.colorMode;
+
+    const accept = crypto.createHash("sha1").update(key + "258EAFA5-E914-47DA-95CA-C5AB0DC85B11").digest("base64");
+    socket.write([
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "", ""
+    ].join("\r\n"));
+
+    const connection = new WebSocketConnection(socket, head);
+    this.sockets.add(connection);
+
+    const serverClass = server.constructor as typeof Server;
+    const onData = (data: Server.ParsedData) => {
+      connection.send(JSON.stringify({ type: "data", line: serverClass.toFormattedString({ ...data }, colorMode), data }));
+    };
+    const onStatus = () => connection.send(JSON.stringify({ type: "status", status: server.getStatus() }));
+    server.on("data", onData);
+    server.on("ready", onStatus);
+    server.on("exit", onStatus);
+    onStatus();
+
+    connection.onMessage = (message) => {
+      let command = message;
+      try {
+        const parsed = JSON.parse(message);
+        if (typeof parsed?.command === "string") command = parsed.command;
+      }
+      catch { /* Plain text command */ }
+      if (command && server.isRunning()) server.writeLine(command);
+    };
+    connection.onClose = () => {
+      this.sockets.delete(connection);
+      server.off("data", onData);
+      server.off("ready", onStatus);
+      server.off("exit", onStatus);
+    };
+  }
+}
+
+/**
+ * Minimal server side WebSocket connection. Handles text messages, fragmentation, ping and close.
+ */
+class WebSocketConnection {
+  public onMessage: (message: string) => void = () => { };
+  public onClose: () => void = () => { };
+
+  private buffer: Buffer;
+  private fragments: Buffer[] = [];
+  private closed = false;
+
+  constructor(private socket: Duplex, head: Buffer) {
+    this.buffer = Buffer.from(head);
+    socket.on("data", (data: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, data]);
+      this.parse();
+    });
+    socket.on("close", () => this.finish());
+    socket.on("error", () => this.finish());
+    if (this.buffer.length) setImmediate(() => this.parse());
+  }
+
+  public send(text: string) {
+    this.sendFrame(0x1, Buffer.from(text, "utf-8"));
+  }
+
+  public close(code = 1000, reason = "") {
+    if (this.closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.sendFrame(0x8, payload);
+    this.socket.end();
+    this.finish();
+  }
+
+  private finish() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onClose();
+  }
+
+  private sendFrame(opcode: number, payload: Buffer) {
+    if (this.closed || this.socket.destroyed) return;
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    }
+    else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[0] = 0x80 | opcode;
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    }
+    else {
+      header = Buffer.alloc(10);
+      header[0] = 0x80 | opcode;
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private parse() {
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0;
+      const opcode = this.buffer[0] & 0x0f;
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let length = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) return;
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      else if (length === 127) {
+        if (this.buffer.length < 10) return;
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        // Clients must mask their frames
+        return this.close(1002, "Frames must be masked");
+      }
+      if (this.buffer.length < offset + 4 + length) return;
+
+      const mask = this.buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      this.buffer = this.buffer.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case 0x0: // Continuation
+        case 0x1: // Text
+        case 0x2: // Binary
+          this.fragments.push(payload);
+          if (fin) {
+            const message = Buffer.concat(this.fragments).toString("utf-8");
+            this.fragments = [];
+            this.onMessage(message);
+          }
+          break;
+        case 0x8: // Close
+          return this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        case 0x9: // Ping
+          this.sendFrame(0xA, payload);
+          break;
+      }
+    }
+  }
+}
+
+export interface RemoteApi {
+  // Unexpected error while handling a request
+  emit(event: "error", error: Error): boolean;
+  on(event: "error", listener: (error: Error) => void): this;
+  once(event: "error", listener: (error: Error) => void): this;
+  off(event: "error", listener: (error: Error) => void): this;
+}
+
+export namespace RemoteApi {
+  export interface CorsOptions {
+    /**
+     * Origins allowed to call the API, or `*` for any.
+     */
+    origins: string[] | "*";
+    /**
+     * Allow credentials such as cookies. Default is false.
+     */
+    credentials?: boolean;
+  }
+
+  export interface Options {
+    /**
+     * Name a single server is served under. Default is `server`.
+     */
+    name?: string;
+    /**
+     * Bearer tokens that are accepted. At least one is required unless `allowAnonymous` is set.
+     */
+    tokens?: string | string[];
+    /**
+     * Serve the API without tokens, to anyone who can reach it. Default is false.
+     */
+    allowAnonymous?: boolean;
+    /**
+     * CORS settings. No CORS headers are sent if not set.
+     */
+    cors?: CorsOptions | null;
+    /**
+     * Path prefix of every endpoint, such as `/api`. Default is none.
+     */
+    basePath?: string;
+    /**
+     * Color mode of console lines when the WebSocket doesn't ask for one. Default is `None`.
+     */
+    colorMode?: Server.ColorMode;
+    /**
+     * Maximum size in bytes of a request body. Default is 1 MB.
+     */
+    bodyLimit?: number;
+  }
+
+  export type ResolvedOptions = Required<Options>;
+
+  export class ApiError extends Error {
+    constructor(public status: number, message: string) {
+      super(message);
+      this.name = "ApiError";
+    }
+  }
+}
+
+export default RemoteApi;
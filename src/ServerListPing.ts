@@ -0,0 +1,387 @@
+import net from "node:net";
+import dns from "node:dns/promises";
+
+/**
+ * Client for the Minecraft Server List Ping protocol. Works on any server, no console or RCON needed.
+ */
+export namespace ServerListPing {
+  export interface Status {
+    version: {
+      name: string;
+      protocol: number;
+    };
+    players: {
+      online: number;
+      max: number;
+      /**
+       * Sample of online players. Servers send at most 12 and may hide it entirely.
+       */
+      sample: PlayerSample[];
+    };
+    /**
+     * Raw description as sent by the server. Either a string or a chat component.
+     */
+    description: string | ChatComponent;
+    /**
+     * Description as plain text, with formatting codes removed.
+     */
+    motd: string;
+    /**
+     * Server icon as a `data:image/png;base64,...` URL.
+     */
+    favicon?: string;
+    enforcesSecureChat?: boolean;
+    /**
+     * Round trip time of the ping/pong exchange in milliseconds.
+     */
+    latency: number;
+    /**
+     * Whether the response came from the legacy (pre-1.7) protocol.
+     */
+    legacy: boolean;
+  }
+
+  export interface PlayerSample {
+    name: string;
+    id: string;
+  }
+
+  export interface ChatComponent {
+    text?: string;
+    translate?: string;
+    extra?: (string | ChatComponent)[];
+    [key: string]: unknown;
+  }
+
+  export interface PingOptions {
+    /**
+     * Time in milliseconds to wait for the server. Default is 5000.
+     */
+    timeout?: number;
+    /**
+     * Protocol version sent in the handshake. Default is -1, which any server accepts for status requests.
+     */
+    protocolVersion?: number;
+    /**
+     * Use the legacy (pre-1.7) ping instead.
+     */
+    legacy?: boolean;
+  }
+
+  /**
+   * Ping a server and return its status.
+   * @param host Hostname or IP of the server.
+   * @param port Port of the server. If omitted, the `_minecraft._tcp` SRV record is looked up and 25565 is used as fallback.
+   */
+  export async function ping(host: string, port?: number, opts?: PingOptions): Promise<Status> {
+    opts ??= {};
+    if (port === undefined) {
+      ({ host, port } = await resolveSrv(host));
+    }
+    return opts.legacy
+      ? await pingLegacy(host, port, opts)
+      : await pingModern(host, port, opts);
+  }
+
+  /**
+   * Resolve the `_minecraft._tcp` SRV record of a host. Falls back to the host itself on port 25565.
+   */
+  export async function resolveSrv(host: string): Promise<{ host: string; port: number }> {
+    if (net.isIP(host)) return { host, port: 25565 };
+    try {
+      const [record] = await dns.resolveSrv(`_minecraft._tcp.${host}`);
+      if (record) return { host: record.name, port: record.port };
+    } catch {
+      // No SRV record
+    }
+    return { host, port: 25565 };
+  }
+
+  /**
+   * Ping a server using the 1.7+ handshake and status protocol.
+   */
+  export function pingModern(host: string, port: number, opts?: PingOptions): Promise<Status> {
+    opts ??= {};
+    const protocolVersion = opts.protocolVersion ?? -1;
+
+    return withSocket(host, port, opts.timeout ?? 5000, (socket, resolve, reject) => {
+      const handshake = Buffer.concat([
+        writeVarInt(0x00),
+        writeVarInt(protocolVersion),
+        writeString(host),
+        writeUShort(port),
+        writeVarInt(1) // Next state: status
+      ]);
+      socket.write(frame(handshake));
+      socket.write(frame(writeVarInt(0x00))); // Status request
+
+      let buffer = Buffer.alloc(0);
+      let status: Omit<Status, "latency"> | null = null;
+      let sentAt = 0;
+
+      socket.on("data", (data) => {
+        buffer = Buffer.concat([buffer, data]);
+        try {
+          let packet: { id: number; data: Buffer; length: number } | null;
+          while ((packet = readPacket(buffer))) {
+            buffer = buffer.subarray(packet.length);
+
+            if (packet.id === 0x00 && !status) {
+              const [json] = readString(packet.data, 0);
+              status = parseStatus(JSON.parse(json));
+              const payload = Buffer.alloc(8);
+              payload.writeBigInt64BE(BigInt(Date.now()));
+              sentAt = performance.now();
+              socket.write(frame(Buffer.concat([writeVarInt(0x01), payload])));
+            }
+            else if (packet.id === 0x01 && status) {
+              resolve({ ...status, latency: Math.round(performance.now() - sentAt) });
+            }
+          }
+        } catch (error) {
+          reject(error as Error);
+        }
+      });
+
+      socket.on("end", () => {
+        // Some servers close the connection instead of answering the ping
+        if (status) resolve({ ...status, latency: Math.round(performance.now() - sentAt) });
+      });
+    });
+  }
+
+  /**
+   * Ping a server using the legacy (1.4 - 1.6) server list ping. Older servers answer with the pre-1.4 format, which is parsed too.
+   */
+  export function pingLegacy(host: string, port: number, opts?: PingOptions): Promise<Status> {
+    opts ??= {};
+    const protocolVersion = opts.protocolVersion ?? 78;
+
+    return withSocket(host, port, opts.timeout ?? 5000, (socket, resolve, reject) => {
+      const channel = utf16be("MC|PingHost");
+      const hostData = utf16be(host);
+      const rest = Buffer.alloc(1 + 2 + hostData.length + 4);
+      rest.writeUInt8(protocolVersion, 0);
+      rest.writeUInt16BE(host.length, 1);
+      hostData.copy(rest, 3);
+      rest.writeInt32BE(port, 3 + hostData.length);
+
+      const header = Buffer.alloc(5);
+      header.writeUInt8(0xfe, 0);
+      header.writeUInt8(0x01, 1);
+      header.writeUInt8(0xfa, 2);
+      header.writeUInt16BE("MC|PingHost".length, 3);
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(rest.length);
+
+      const sentAt = performance.now();
+      socket.write(Buffer.concat([header, channel, length, rest]));
+
+      let buffer = Buffer.alloc(0);
+      socket.on("data", (data) => {
+        buffer = Buffer.concat([buffer, data]);
+        if (buffer.length < 3) return;
+        if (buffer.readUInt8(0) !== 0xff) {
+          return reject(new Error("Invalid legacy ping response"));
+        }
+        const chars = buffer.readUInt16BE(1);
+        if (buffer.length < 3 + chars * 2) return;
+
+        const latency = Math.round(performance.now() - sentAt);
+        const text = fromUtf16be(buffer.subarray(3, 3 + chars * 2));
+        try {
+          resolve({ ...parseLegacyStatus(text), latency });
+        } catch (error) {
+          reject(error as Error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Convert the JSON status response to a `Status` object, without latency.
+   * Fields with an unexpected type are left out or replaced with their default.
+   * @throws Error if the response isn't a JSON object.
+   */
+  export function parseStatus(json: unknown): Omit<Status, "latency"> {
+    if (!isObject(json)) throw new Error("Invalid status response");
+    const version = isObject(json.version) ? json.version : {};
+    const players = isObject(json.players) ? json.players : {};
+    const description = typeof json.description === "string" || isObject(json.description) ? json.description as string | ChatComponent : "";
+    const sample = Array.isArray(players.sample) ? players.sample : [];
+    return {
+      version: {
+        name: typeof version.name === "string" ? version.name : "",
+        protocol: typeof version.protocol === "number" ? version.protocol : -1
+      },
+      players: {
+        online: typeof players.online === "number" ? players.online : 0,
+        max: typeof players.max === "number" ? players.max : 0,
+        sample: sample.filter((p): p is PlayerSample => isObject(p) && typeof p.name === "string" && typeof p.id === "string")
+      },
+      description,
+      motd: stripFormatting(chatToText(description)),
+      favicon: typeof json.favicon === "string" ? json.favicon : undefined,
+      enforcesSecureChat: typeof json.enforcesSecureChat === "boolean" ? json.enforcesSecureChat : undefined,
+      legacy: false
+    };
+  }
+
+  function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Parse a legacy kick packet string.
+   * 1.4 - 1.6: `§1\0protocol\0version\0motd\0online\0max`
+   * Pre-1.4: `motd§online§max`
+   */
+  export function parseLegacyStatus(text: string): Omit<Status, "latency"> {
+    let protocol = -1, name = "", motd: string, online: string, max: string;
+    if (text.startsWith("§1\u0000")) {
+      let protocolStr: string;
+      [, protocolStr, name, motd, online, max] = text.split("\u0000");
+      protocol = parseInt(protocolStr);
+    }
+    else {
+      const parts = text.split("§");
+      if (parts.length < 3) throw new Error("Invalid legacy ping response");
+      [max, online] = [parts.pop()!, parts.pop()!];
+      motd = parts.join("§");
+    }
+    return {
+      version: { name, protocol },
+      players: { online: parseInt(online) || 0, max: parseInt(max) || 0, sample: [] },
+      description: motd,
+      motd: stripFormatting(motd),
+      legacy: true
+    };
+  }
+
+  /**
+   * Flatten a chat component to its text.
+   */
+  export function chatToText(component: string | ChatComponent): string {
+    if (typeof component === "string") return component;
+    let text = String(component.text ?? component.translate ?? "");
+    // Servers can send anything, so `extra` isn't trusted to be a list
+    for (const child of Array.isArray(component.extra) ? component.extra : []) {
+      text += chatToText(child);
+    }
+    return text;
+  }
+
+  /**
+   * Remove `§` formatting codes from a string.
+   */
+  export function stripFormatting(text: string): string {
+    return text.replace(/§[0-9a-fk-or]/gi, "");
+  }
+
+  // Protocol helpers
+
+  export function writeVarInt(value: number): Buffer {
+    const bytes: number[] = [];
+    value >>>= 0;
+    do {
+      let byte = value & 0x7f;
+      value >>>= 7;
+      if (value !== 0) byte |= 0x80;
+      bytes.push(byte);
+    } while (value !== 0);
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Read a VarInt from a buffer.
+   * @returns The value and the number of bytes read, or null if the buffer ends before the VarInt does.
+   */
+  export function readVarInt(buffer: Buffer, offset: number): [number, number] | null {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      if (offset + i >= buffer.length) return null;
+      const byte = buffer[offset + i];
+      value |= (byte & 0x7f) << (7 * i);
+      if (!(byte & 0x80)) return [value, i + 1];
+    }
+    throw new Error("VarInt is too big");
+  }
+
+  function writeString(value: string) {
+    const data = Buffer.from(value, "utf-8");
+    return Buffer.concat([writeVarInt(data.length), data]);
+  }
+
+  function readString(buffer: Buffer, offset: number): [string, number] {
+    const header = readVarInt(buffer, offset);
+    if (!header) throw new Error("Truncated string");
+    const [length, size] = header;
+    const start = offset + size;
+    return [buffer.toString("utf-8", start, start + length), size + length];
+  }
+
+  function writeUShort(value: number) {
+    const buf = Buffer.alloc(2);
+    buf.writeUInt16BE(value);
+    return buf;
+  }
+
+  function frame(data: Buffer) {
+    return Buffer.concat([writeVarInt(data.length), data]);
+  }
+
+  /**
+   * Read one length-prefixed packet from the start of the buffer. Returns null if it is not complete yet.
+   */
+  function readPacket(buffer: Buffer): { id: number; data: Buffer; length: number } | null {
+    const header = readVarInt(buffer, 0);
+    if (!header) return null;
+    const [length, size] = header;
+    if (buffer.length < size + length) return null;
+    const idHeader = readVarInt(buffer, size);
+    if (!idHeader) throw new Error("Truncated packet");
+    const [id, idSize] = idHeader;
+    return {
+      id,
+      data: buffer.subarray(size + idSize, size + length),
+      length: size + length
+    };
+  }
+
+  function utf16be(value: string) {
+    const buf = Buffer.from(value, "utf16le");
+    return buf.swap16();
+  }
+
+  function fromUtf16be(buf: Buffer) {
+    return Buffer.from(buf).swap16().toString("utf16le");
+  }
+
+  function withSocket<T>(
+    host: string,
+    port: number,
+    timeout: number,
+    fn: (socket: net.Socket, resolve: (value: T) => void, reject: (err: Error) => void) => void
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host, port });
+      let done = false;
+      const finish = (err: Error | null, value?: T) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        socket.destroy();
+        err ? reject(err) : resolve(value!);
+      };
+      const timer = setTimeout(() => finish(new Error(`Ping to ${host}:${port} timed out after ${timeout}ms`)), timeout);
+
+      socket.once("error", (err) => finish(err));
+      socket.once("close", () => finish(new Error(`Connection to ${host}:${port} closed before a response was received`)));
+      socket.once("connect", () => {
+        fn(socket, (value) => finish(null, value), (err) => finish(err));
+      });
+    });
+  }
+}
+
+export default ServerListPing;
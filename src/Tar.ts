@@ -0,0 +1,259 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import zlib from "node:zlib";
+import { pipeline } from "node:stream/promises";
+
+/**
+ * Minimal streaming tar.gz writer and reader. Long paths are stored using PAX headers.
+ */
+export namespace Tar {
+  export interface PackEntry {
+    /**
+     * Path of the file on disk.
+     */
+    source?: string;
+    /**
+     * Contents of the file, used instead of `source`.
+     */
+    data?: Buffer;
+    /**
+     * Path inside the archive, using `/` as separator.
+     */
+    name: string;
+    mode?: number;
+    mtime?: Date;
+  }
+
+  /**
+   * Write a gzipped tar archive.
+   * @param output Path of the archive to create.
+   * @param entries Files to add, in order.
+   */
+  export async function pack(output: string, entries: Iterable<PackEntry> | AsyncIterable<PackEntry>): Promise<void> {
+    async function* generate() {
+      for await (const entry of entries) {
+        if (entry.data) {
+          yield* headers(entry.name, entry.data.length, entry.mode ?? 0o644, entry.mtime ?? new Date());
+          yield entry.data;
+          yield padding(entry.data.length);
+          continue;
+        }
+
+        const stat = await fsp.stat(entry.source!);
+        const size = stat.size;
+        yield* headers(entry.name, size, entry.mode ?? (stat.mode & 0o777), entry.mtime ?? stat.mtime);
+
+        // Write exactly `size` bytes, even if the file changed after it was stat'ed
+        let written = 0;
+        if (size > 0) {
+          for await (const chunk of fs.createReadStream(entry.source!, { start: 0, end: size - 1 })) {
+            written += chunk.length;
+            yield chunk as Buffer;
+          }
+        }
+        if (written < size) yield Buffer.alloc(size - written);
+        yield padding(size);
+      }
+      // End of archive
+      yield Buffer.alloc(1024);
+    }
+
+    await pipeline(generate(), zlib.createGzip(), fs.createWriteStream(output));
+  }
+
+  export interface ExtractOptions {
+    /**
+     * Only extract entries for which this returns true.
+     */
+    filter?: (name: string) => boolean;
+  }
+
+  /**
+   * Extract a gzipped tar archive into a directory.
+   * @returns The names of the extracted files.
+   */
+  export async function extract(archive: string, destination: string, opts?: ExtractOptions): Promise<string[]> {
+    destination = Path.resolve(destination);
+    await fsp.mkdir(destination, { recursive: true });
+
+    const extracted: string[] = [];
+    let buffer = Buffer.alloc(0);
+    let paxPath: string | null = null;
+    let longName: string | null = null;
+    let current: { handle: fsp.FileHandle | null; remaining: number; padding: number; meta?: "pax" | "longname"; data: Buffer[] } | null = null;
+
+    const gunzip = fs.createReadStream(archive).pipe(zlib.createGunzip());
+    try {
+      for await (const chunk of gunzip) {
+        buffer = Buffer.concat([buffer, chunk as Buffer]);
+
+        while (true) {
+          if (current) {
+            if (current.remaining > 0) {
+              if (buffer.length === 0) break;
+              const take = Math.min(current.remaining, buffer.length);
+              const part = buffer.subarray(0, take);
+              if (current.meta) current.data.push(Buffer.from(part));
+              else if (current.handle) await current.handle.write(part);
+              current.remaining -= take;
+              buffer = buffer.subarray(take);
+              continue;
+            }
+            if (buffer.length < current.padding) break;
+            buffer = buffer.subarray(current.padding);
+
+            if (current.meta === "pax") paxPath = parsePax(Buffer.concat(current.data))["path"] ?? null;
+            else if (current.meta === "longname") longName = Buffer.concat(current.data).toString("utf-8").replace(/\0+$/, "");
+            await current.handle?.close();
+            current = null;
+            continue;
+          }
+
+          if (buffer.length < 512) break;
+          const header = buffer.subarray(0, 512);
+          buffer = buffer.subarray(512);
+          if (header.every(b => b === 0)) continue;
+
+          const size = readOctal(header, 124, 12);
+          const type = String.fromCharCode(header[156] || 0x30);
+          const pad = (512 - (size % 512)) % 512;
+
+          if (type === "x" || type === "L") {
+            current = { handle: null, remaining: size, padding: pad, meta: type === "x" ? "pax" : "longname", data: [] };
+            continue;
+          }
+          if (type === "g") {
+            current = { handle: null, remaining: size, padding: pad, data: [] };
+            continue;
+          }
+
+          const prefix = readString(header, 345, 155);
+          const name = paxPath ?? longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+          paxPath = null;
+          longName = null;
+
+          const target = Path.resolve(destination, name);
+          if (target !== destination && !target.startsWith(destination + Path.sep)) {
+            throw new Error(`Refusing to extract ${name} outside of ${destination}`);
+          }
+          const wanted = !opts?.filter || opts.filter(name);
+
+          if (type === "5") {
+            if (wanted) await fsp.mkdir(target, { recursive: true });
+            current = { handle: null, remaining: size, padding: pad, data: [] };
+          }
+          else if (type === "0" || type === "7") {
+            let handle: fsp.FileHandle | null = null;
+            if (wanted) {
+              await fsp.mkdir(Path.dirname(target), { recursive: true });
+              handle = await fsp.open(target, "w", readOctal(header, 100, 8) || 0o644);
+              extracted.push(name);
+            }
+            current = { handle, remaining: size, padding: pad, data: [] };
+          }
+          else {
+            // Links and special files are skipped
+            current = { handle: null, remaining: size, padding: pad, data: [] };
+          }
+        }
+      }
+    } finally {
+      await current?.handle?.close();
+    }
+
+    return extracted;
+  }
+
+  function* headers(name: string, size: number, mode: number, mtime: Date): Generator<Buffer> {
+    let headerName = name;
+    let prefix = "";
+    if (Buffer.byteLength(name) > 100) {
+      const split = splitName(name);
+      if (split) [prefix, headerName] = split;
+      else {
+        const pax = paxRecord("path", name);
+        yield header(`PaxHeader/${name.slice(-80)}`, "", pax.length, 0o644, mtime, "x");
+        yield pax;
+        yield padding(pax.length);
+        headerName = name.slice(-100);
+      }
+    }
+    yield header(headerName, prefix, size, mode, mtime, "0");
+  }
+
+  function header(name: string, prefix: string, size: number, mode: number, mtime: Date, type: string): Buffer {
+    const buf = Buffer.alloc(512);
+    buf.write(name, 0, 100, "utf-8");
+    writeOctal(buf, mode, 100, 8);
+    writeOctal(buf, 0, 108, 8); // uid
+    writeOctal(buf, 0, 116, 8); // gid
+    writeOctal(buf, size, 124, 12);
+    writeOctal(buf, Math.floor(mtime.getTime() / 1000), 136, 12);
+    buf.fill(" ", 148, 156); // Checksum is calculated with spaces in its place
+    buf.write(type, 156, 1, "latin1");
+    buf.write("ustar\u0000", 257, 6, "latin1");
+    buf.write("00", 263, 2, "latin1");
+    buf.write(prefix, 345, 155, "utf-8");
+
+    let sum = 0;
+    for (const byte of buf) sum += byte;
+    buf.write(sum.toString(8).padStart(6, "0") + "\u0000 ", 148, 8, "latin1");
+    return buf;
+  }
+
+  function splitName(name: string): [string, string] | null {
+    for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+      const prefix = name.slice(0, i);
+      const rest = name.slice(i + 1);
+      if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) return [prefix, rest];
+    }
+    return null;
+  }
+
+  function paxRecord(key: string, value: string): Buffer {
+    const body = ` ${key}=${value}\n`;
+    let length = Buffer.byteLength(body);
+    // The length prefix includes its own digits
+    let total = length + String(length).length;
+    if (String(total).length !== String(length).length) total = length + String(total).length;
+    return Buffer.from(`${total}${body}`, "utf-8");
+  }
+
+  function parsePax(data: Buffer): Record<string, string> {
+    const result: Record<string, string> = {};
+    let offset = 0;
+    while (offset < data.length) {
+      const space = data.indexOf(0x20, offset);
+      if (space === -1) break;
+      const length = parseInt(data.toString("latin1", offset, space));
+      if (!length) break;
+      const record = data.toString("utf-8", space + 1, offset + length - 1);
+      const eq = record.indexOf("=");
+      result[record.slice(0, eq)] = record.slice(eq + 1);
+      offset += length;
+    }
+    return result;
+  }
+
+  function padding(size: number) {
+    return Buffer.alloc((512 - (size % 512)) % 512);
+  }
+
+  function writeOctal(buf: Buffer, value: number, offset: number, length: number) {
+    buf.write(value.toString(8).padStart(length - 1, "0") + "\u0000", offset, length, "latin1");
+  }
+
+  function readOctal(buf: Buffer, offset: number, length: number) {
+    const str = buf.toString("latin1", offset, offset + length).replace(/[\0 ]+$/, "").trim();
+    return str ? parseInt(str, 8) : 0;
+  }
+
+  function readString(buf: Buffer, offset: number, length: number) {
+    const slice = buf.subarray(offset, offset + length);
+    const end = slice.indexOf(0);
+    return slice.toString("utf-8", 0, end === -1 ? length : end);
+  }
+}
+
+export default Tar;
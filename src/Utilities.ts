@@ -11,4 +11,25 @@ export function escapeHTML(str: string) {
       "'": '&#39;',
       '"': '&quot;'
     }[tag])!);
+}
+
+/**
+ * Run an async function on every item, with at most `limit` running at the same time.
+ * @returns The settled results, in the order of the items.
+ */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import fsp from "node:fs/promises";
+import zlib from "node:zlib";
+
+/**
+ * Minimal read-only zip archive reader. Supports stored and deflated entries, which covers jars and modpacks.
+ */
+export class ZipArchive {
+  private constructor(
+    private readonly handle: fsp.FileHandle,
+    /**
+     * Entries in the archive, in central directory order.
+     */
+    public readonly entries: ZipArchive.Entry[]
+  ) { }
+
+  /**
+   * Open a zip archive and read its central directory.
+   * @param path Path to the zip file.
+   */
+  public static async open(path: string): Promise<ZipArchive> {
+    const handle = await fsp.open(path, "r");
+    try {
+      const { size } = await handle.stat();
+      // End of central directory record is 22 bytes plus up to 65535 bytes of comment
+      const tailSize = Math.min(size, 22 + 0xffff);
+      const tail = Buffer.alloc(tailSize);
+      await handle.read(tail, 0, tailSize, size - tailSize);
+
+      let eocd = -1;
+      for (let i = tailSize - 22; i >= 0; i--) {
+        if (tail.readUInt32LE(i) === 0x06054b50) {
+          eocd = i;
+          break;
+        }
+      }
+      if (eocd === -1) {
+        throw new Error(`${path} is not a zip archive`);
+      }
+
+      const count = tail.readUInt16LE(eocd + 10);
+      const cdSize = tail.readUInt32LE(eocd + 12);
+      const cdOffset = tail.readUInt32LE(eocd + 16);
+      const cd = Buffer.alloc(cdSize);
+      await handle.read(cd, 0, cdSize, cdOffset);
+
+      const entries: ZipArchive.Entry[] = [];
+      let pos = 0;
+      for (let i = 0; i < count; i++) {
+        if (cd.readUInt32LE(pos) !== 0x02014b50) {
+          throw new Error(`Corrupt central directory in ${path}`);
+        }
+        const flags = cd.readUInt16LE(pos + 8);
+        const method = cd.readUInt16LE(pos + 10);
+        const crc32 = cd.readUInt32LE(pos + 16);
+        const compressedSize = cd.readUInt32LE(pos + 20);
+        const uncompressedSize = cd.readUInt32LE(pos + 24);
+        const nameLength = cd.readUInt16LE(pos + 28);
+        const extraLength = cd.readUInt16LE(pos + 30);
+        const commentLength = cd.readUInt16LE(pos + 32);
+        const offset = cd.readUInt32LE(pos + 42);
+        const name = cd.toString(flags & 0x800 ? "utf-8" : "latin1", pos + 46, pos + 46 + nameLength);
+        entries.push({
+          name,
+          method,
+          crc32,
+          compressedSize,
+          uncompressedSize,
+          offset,
+          isDirectory: name.endsWith("/")
+        });
+        pos += 46 + nameLength + extraLength + commentLength;
+      }
+
+      return new ZipArchive(handle, entries);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Open a zip archive, run `fn` with it and close it again.
+   */
+  public static async use<T>(path: string, fn: (zip: ZipArchive) => Promise<T>): Promise<T> {
+    const zip = await ZipArchive.open(path);
+    try {
+      return await fn(zip);
+    } finally {
+      await zip.close();
+    }
+  }
+
+  /**
+   * Get an entry by its full name. Returns undefined if it does not exist.
+   */
+  public getEntry(name: string) {
+    return this.entries.find(e => e.name === name);
+  }
+
+  /**
+   * Check if an entry with the given name exists.
+   */
+  public has(name: string) {
+    return !!this.getEntry(name);
+  }
+
+  /**
+   * Read and decompress an entry.
+   * @param entry The entry or the full name of the entry.
+   */
+  public async read(entry: string | ZipArchive.Entry): Promise<Buffer> {
+    const e = typeof entry === "string" ? this.getEntry(entry) : entry;
+    if (!e) {
+      throw new Error(`Entry ${entry} not found in zip archive`);
+    }
+
+    const header = Buffer.alloc(30);
+    await this.handle.read(header, 0, 30, e.offset);
+    if (header.readUInt32LE(0) !== 0x04034b50) {
+      throw new Error(`Corrupt local header for ${e.name}`);
+    }
+    const dataOffset = e.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = Buffer.alloc(e.compressedSize);
+    await this.handle.read(data, 0, e.compressedSize, dataOffset);
+
+    switch (e.method) {
+      case 0: return data;
+      case 8: return zlib.inflateRawSync(data);
+      default: throw new Error(`Unsupported compression method ${e.method} for ${e.name}`);
+    }
+  }
+
+  /**
+   * Read an entry as a utf-8 string. Returns undefined if the entry does not exist.
+   */
+  public async readText(name: string): Promise<string | undefined> {
+    const entry = this.getEntry(name);
+    if (!entry) return undefined;
+    return (await this.read(entry)).toString("utf-8");
+  }
+
+  public async close() {
+    await this.handle.close();
+  }
+}
+
+export namespace ZipArchive {
+  export interface Entry {
+    name: string;
+    method: number;
+    crc32: number;
+    compressedSize: number;
+    uncompressedSize: number;
+    /**
+     * Offset of the local file header.
+     */
+    offset: number;
+    isDirectory: boolean;
+  }
+}
+
+export default ZipArchive;
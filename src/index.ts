@@ -1,5 +1,32 @@
 export * from "./MinecraftApi";
+export * from "./objects/ModdedServer";
 export * from "./objects/ForgeServer";
+export * from "./objects/NeoForgeServer";
+export * from "./objects/FabricServer";
+export * from "./objects/PaperServer";
 export * from "./objects/Server";
+export * from "./objects/Supervisor";
+export * from "./objects/Scheduler";
+export * from "./objects/ServerManager";
 export * from "./Utilities";
-export * from "./Rcon";
\ No newline at end of file
+export * from "./Rcon";
+export * from "./ServerListPing";
+export * from "./Query";
+export * from "./Properties";
+export * from "./Backup";
+export * from "./Cron";
+export * from "./Tar";
+export * from "./Downloader";
+export * from "./ModProvider";
+export * from "./CurseForgeProvider";
+export * from "./ModrinthProvider";
+export * from "./ModInspector";
+export * from "./ModLock";
+export * from "./Java";
+export * from "./LaunchProfile";
+export * from "./LogStore";
+export * from "./RemoteApi";
+export * from "./CrashReport";
+export * from "./PlayerLists";
+export * from "./PlayerIdentity";
+export * from "./Zip";
\ No newline at end of file
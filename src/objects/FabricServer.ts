@@ -0,0 +1,118 @@
+import Server from "./Server";
+import ModdedServer from "./ModdedServer";
+import MinecraftApi from "../MinecraftApi";
+import Downloader from "../Downloader";
+
+/**
+ * Represents a Fabric minecraft server.
+ * @experimental
+ */
+export class FabricServer extends ModdedServer {
+
+  protected loaderVersion?: string;
+  protected installerVersion?: string;
+
+  /**
+   * Base URL of the Fabric meta API used by this server. Default is `MinecraftApi.fabricMetaUrl`.
+   */
+  public fabricMetaUrl?: string;
+
+  public setLoaderVersion(version: string): this {
+    this.loaderVersion = version;
+    return this;
+  }
+
+  public setInstallerVersion(version: string): this {
+    this.installerVersion = version;
+    return this;
+  }
+
+  public getLoaderVersion() {
+    return this.loaderVersion;
+  }
+
+  public getInstallerVersion() {
+    return this.installerVersion;
+  }
+
+  public setFabricMetaUrl(url: string): this {
+    this.fabricMetaUrl = url;
+    return this;
+  }
+
+  public getLoader(): string {
+    return "fabric";
+  }
+
+  protected getBuiltinMods(): Record<string, string | undefined> {
+    return { ...super.getBuiltinMods(), fabricloader: this.loaderVersion };
+  }
+
+  protected applyPackLoader(dependencies: Record<string, string>): string {
+    if (!dependencies["fabric-loader"]) {
+      throw new Error(`Modpack is for ${Object.keys(dependencies).filter(d => d !== "minecraft").join(", ") || "an unknown loader"}, not Fabric.`);
+    }
+    return this.loaderVersion = dependencies["fabric-loader"];
+  }
+
+  public getDefaultJarFile(): string {
+    return "fabric-server-launch.jar";
+  }
+
+  public static parseData(data: string): Server.ParsedData {
+    // Example:
+    // [14:47:20] [Server thread/INFO] (Minecraft) Starting minecraft server version 1.20.1
+    // [14:47:20] [main/INFO]: Loading Minecraft 1.20.1 with Fabric Loader 0.16.9
+    const format = /\[(\d+:\d+:\d+)\] \[(.+?)\/(\w+)\](?: \(.+?\) |: )(.+)/;
+    const match = data.match(format);
+    if (match) {
+      const [, time, thread, type, message] = match;
+      return {
+        time,
+        thread,
+        type,
+        message: message.trim()
+      };
+    }
+    return {
+      message: data.trim()
+    };
+  }
+
+  /**
+   * Install the Fabric server launcher for the set minecraft, loader and installer version.
+   * Versions that are not set or set to `latest` are resolved to the newest stable version.
+   *
+   * The launcher downloads the vanilla server jar itself on the first start.
+   */
+  public async installServer(opts?: Server.InstallOptions) {
+    opts ??= {};
+    const metaUrl = this.fabricMetaUrl ?? opts.api?.endpoints?.fabricMeta ?? MinecraftApi.fabricMetaUrl;
+    // The URL of this server takes precedence over the endpoints of the request
+    const api: MinecraftApi.RequestOptions = { ...opts.api, endpoints: { ...opts.api?.endpoints, fabricMeta: metaUrl } };
+
+    const versionData = await MinecraftApi.getServerData(this.version ?? "latest", opts.api);
+    this.version = versionData.id;
+
+    if (!this.loaderVersion || this.loaderVersion === "latest") {
+      const versions = await MinecraftApi.getFabricLoaderVersions(this.version, metaUrl, api);
+      const loader = versions.find(v => v.stable) ?? versions[0];
+      if (!loader) throw new Error(`No Fabric loader available for ${this.version}`);
+      this.loaderVersion = loader.version;
+    }
+
+    if (!this.installerVersion || this.installerVersion === "latest") {
+      const versions = await MinecraftApi.getFabricInstallerVersions(metaUrl, api);
+      const installer = versions.find(v => v.stable) ?? versions[0];
+      if (!installer) throw new Error("No Fabric installer available");
+      this.installerVersion = installer.version;
+    }
+
+    const dlUrl = `${metaUrl}/v2/versions/loader/${this.version}/${this.loaderVersion}/${this.installerVersion}/server/jar`;
+
+    const downloader = opts.downloader ?? new Downloader();
+    await downloader.download(dlUrl, this.getServerJarPath());
+  }
+}
+
+export default FabricServer;
@@ -1,49 +1,37 @@
 import fs from "node:fs";
 import fsp from "node:fs/promises";
 import Path from "node:path";
-import * as pty from "node-pty";
-import { wait } from "../Utilities";
+import { mapConcurrent } from "../Utilities";
 import Server from "./Server";
+import ModdedServer from "./ModdedServer";
 import os from "node:os";
 import MinecraftApi from "../MinecraftApi";
+import Downloader from "../Downloader";
+import Java from "../Java";
+import ZipArchive from "../Zip";
 
 /**
  * Represents a Forge minecraft server.
  * @experimental
  */
-export class ForgeServer extends Server {
+export class ForgeServer extends ModdedServer {
 
   protected forgeVersion?: string;
 
   public setForgeVersion(version: string) {
     this.forgeVersion = version;
   }
-  
-  public async start() {
-    const isUnix = os.platform() !== "win32";
-    const runner = isUnix ? "run.sh" : "run.bat";
-    let runnerData = await fsp.readFile(Path.join(this.path, runner), "utf-8");
-    runnerData = runnerData.replace(/^.*java\s/gm, this.javaPath + " ");
-    await fsp.writeFile(Path.join(this.path, runner), runnerData);
-    
-    const parameterData = [
-      "-Dterminal.jline=false", // Disable colored output
-      `-Xms${this.memory[0]}M`,
-      `-Xmx${this.memory[1]}M`,
-    ].join(" ");
-
-    await fsp.writeFile(Path.join(this.path, "user_jvm_args.txt"), parameterData);
-    
-    // Start the server
-    this.ptyProcess = pty.spawn(Path.join(this.path, runner), [
-      "--nogui"
-    ], {
-      name: "xterm-color",
-      cwd: this.path,
-      env: process.env,
-    });
 
-    this.attachPtyEvents(this.ptyProcess);
+  public getForgeVersion() {
+    return this.forgeVersion;
+  }
+  
+  /**
+   * Starts Java directly with the argument file the Forge installer generated, which is read from the run script.
+   * `user_jvm_args.txt` is included before the launch profile, so flags from the profile take precedence.
+   */
+  protected async buildCommandLine(java: Java.Runtime): Promise<Server.CommandLine> {
+    return await this.buildRunScriptCommandLine(java);
   }
 
   public static parseData(data: string): Server.ParsedData {
@@ -68,60 +56,117 @@ export class ForgeServer extends Server {
   public async installServer(opts?: Server.InstallOptions) {
     opts ??= {};
     
-    const versionData = await MinecraftApi.getServerData(this.version ?? "latest");
+    const versionData = await MinecraftApi.getServerData(this.version ?? "latest", opts.api);
     this.version = versionData.id;
 
     if (!this.forgeVersion || this.forgeVersion === "latest") {
-      const versions = await MinecraftApi.getForgeVersions(this.version);
+      const versions = await MinecraftApi.getForgeVersions(this.version, opts.api);
       this.forgeVersion = versions[0];
     }
     
-    const dlUrl = `https://maven.minecraftforge.net/net/minecraftforge/forge/${this.version}-${this.forgeVersion}/forge-${this.version}-${this.forgeVersion}-installer.jar`;
+    const dlUrl = MinecraftApi.getForgeInstallerUrl(this.version, this.forgeVersion, opts.api?.endpoints?.forgeMaven);
+
+    const downloader = opts.downloader ?? new Downloader();
+    // Maven publishes a checksum next to each artifact
+    const sha1 = await downloader.fetchText(`${dlUrl}.sha1`).then(text => text.trim().split(/\s+/)[0]).catch(() => undefined);
 
     const rnd = Math.floor(Math.random() * 1000000).toString(16);
     const tmp = `${os.tmpdir()}/${rnd}_forge-installer.jar`;
-    // Download the server jar
-    const stream = fs.createWriteStream(tmp);
+    // Download the installer
+    await downloader.download(dlUrl, tmp, { sha1 });
 
-    const buf = Buffer.from(await fetch(dlUrl).then(res => res.arrayBuffer()));
-    stream.write(buf);
-    stream.end();
+    const java = await this.resolveJava();
+    try {
+      this.jarFile = await this.runServerInstaller(java, tmp);
+    }
+    finally {
+      await fsp.rm(tmp, { force: true });
+    }
+  }
 
-    return new Promise<void>((resolve, reject) => {
-      stream.on("finish", async () => {
-        const term = pty.spawn(this.javaPath, ["-jar", tmp, "--installServer"], {
-          name: "xterm-color",
-          cwd: this.path
-        });
+  /**
+   * Import a CurseForge modpack, from its zip file or an extracted directory.
+   *
+   * The Minecraft and Forge versions are taken from the manifest and Forge is installed, unless `installLoader` is false.
+   * Every file in the manifest is installed with `installMod`, a few at a time, and files marked as not required are installed disabled.
+   * Finally the overrides folder is copied into the server directory.
+   * @returns What was installed, and which files were substituted with another file or failed.
+   * @throws Error if the manifest is missing or the pack isn't for Forge.
+   */
+  public async importModpack(source: string, opts?: ForgeServer.ModpackOptions): Promise<ForgeServer.ModpackReport> {
+    opts ??= {};
+    const isDirectory = await fsp.stat(source).then(s => s.isDirectory());
+    const zip = isDirectory ? null : await ZipArchive.open(source);
+    try {
+      const manifestText = zip ? await zip.readText("manifest.json") : await fsp.readFile(Path.join(source, "manifest.json"), "utf-8").catch(() => undefined);
+      if (!manifestText) throw new Error(`No manifest.json found in ${source}`);
+      const manifest: ForgeServer.ModpackManifest = JSON.parse(manifestText);
 
-        term.onExit(async () => {
-          let checks = 0;
-          while (checks < 15) {
-            await wait(1000);
-            const files = await fsp.readdir(this.path).then(files => files).catch(() => []);
-            let serverJar: string | undefined;
-            if ((serverJar = files.find(f => f.endsWith("run.sh"))) && files.find(f => f === "user_jvm_args.txt")) {
-              this.jarFile = serverJar;
-              await fsp.rm(tmp);
-              return resolve();
-            }
-            checks++;
-          }
-          await fsp.rm(tmp);
-          return reject("Server not installed. Timeout after 15 seconds.");
-        });
-      });
-      stream.on("error", async (err) => {
-        await fsp.rm(tmp);
-        reject(err);
+      const loaders = manifest.minecraft?.modLoaders ?? [];
+      const loader = (loaders.find(l => l.primary) ?? loaders[0])?.id;
+      if (!loader?.startsWith("forge-")) {
+        throw new Error(`Modpack ${manifest.name ?? source} is for ${loader ?? "an unknown loader"}, not Forge.`);
+      }
+      this.version = manifest.minecraft.version;
+      this.forgeVersion = loader.slice("forge-".length);
+
+      if (opts.installLoader !== false) {
+        await this.installServer(opts);
+      }
+
+      const report: ForgeServer.ModpackReport = {
+        name: manifest.name,
+        version: manifest.version,
+        minecraftVersion: this.version,
+        forgeVersion: this.forgeVersion,
+        installed: [],
+        substituted: [],
+        failed: [],
+        overrides: 0
+      };
+
+      const files = manifest.files ?? [];
+      const results = await mapConcurrent(files, opts.concurrency ?? 4, file => this.installMod(file.projectID, file.fileID, file.required !== false, opts));
+      results.forEach((result, i) => {
+        const { projectID: projectId, fileID: fileId } = files[i];
+        if (result.status === "rejected") {
+          report.failed.push({ projectId, fileId, error: result.reason?.message ?? String(result.reason) });
+          return;
+        }
+        report.installed.push({ projectId, fileId: result.value });
+        if (result.value !== fileId) {
+          report.substituted.push({ projectId, requestedFileId: fileId, fileId: result.value });
+        }
       });
-    });
+
+      const overrides = manifest.overrides ?? "overrides";
+      report.overrides = zip
+        ? await this.extractOverrides(zip, overrides)
+        : await this.copyOverrides(Path.join(source, overrides));
+      return report;
+    }
+    finally {
+      await zip?.close();
+    }
+  }
+
+  public getLoader(): string {
+    return "forge";
+  }
+
+  protected getBuiltinMods(): Record<string, string | undefined> {
+    return { ...super.getBuiltinMods(), forge: this.forgeVersion };
+  }
+
+  protected applyPackLoader(dependencies: Record<string, string>): string {
+    if (!dependencies.forge) {
+      throw new Error(`Modpack is for ${Object.keys(dependencies).filter(d => d !== "minecraft").join(", ") || "an unknown loader"}, not Forge.`);
+    }
+    return this.forgeVersion = dependencies.forge;
   }
 
   public getDefaultJarFile(): string {
-    const isUnix = os.platform() !== "win32";
-    const runner = isUnix ? "run.sh" : "run.bat";
-    return runner;
+    return this.getRunScript();
     // try {
     //   const jar = fs.readdirSync(this.path).find(f => f.endsWith(".jar"));
     //   if (jar) return jar;
@@ -135,121 +180,110 @@ export class ForgeServer extends Server {
     return `${this.path}/${this.jarFile}`;
   }
 
-  public async listAvailableMods() {
-    const modsAvailable = Path.join(this.path, "modsavailable");
-    await fsp.mkdir(modsAvailable, { recursive: true });
-    const available = await fsp.readdir(modsAvailable);
+  /**
+   * Get the mean tick time and TPS of each dimension and of the whole server with the `forge tps` command.
+   */
+  public async getTps(): Promise<ForgeServer.TpsReport> {
+    const result = await this.execute("forge tps", {
+      match: (data) => data.some(d => /^Overall\s*:/.test(d.message) || Server.commandErrorPattern.test(d.message))
+    });
 
-    return available;
+    const report: ForgeServer.TpsReport = { dimensions: [] };
+    for (const line of result.lines) {
+      const entry = ForgeServer.parseTpsLine(line);
+      if (!entry) continue;
+      if (entry.dimension === "Overall") report.overall = entry;
+      else report.dimensions.push(entry);
+    }
+    if (!report.overall && report.dimensions.length === 0) {
+      throw new Error(`Unexpected response to forge tps: ${result.lines.join("\n") || "no response"}`);
+    }
+    return report;
   }
 
-  public async listEnabledMods() {
-    const modsEnabled = Path.join(this.path, "mods");
-    await fsp.mkdir(modsEnabled, { recursive: true });
-    const enabled = await fsp.readdir(modsEnabled);
-
-    return enabled;
-  }
-  
-  public async listMods() {
+  /**
+   * Parse a line of `forge tps` output, such as `Dim minecraft:overworld (minecraft:overworld): Mean tick time: 0.479 ms. Mean TPS: 20.000`.
+   * @returns The entry, or null if the line isn't one. The overall line has `Overall` as dimension.
+   */
+  public static parseTpsLine(line: string): ForgeServer.TpsEntry | null {
+    // Before 1.13 dimensions are numbers: Dim  0 : Mean tick time: 1.234 ms. Mean TPS: 20.000
+    const match = line.match(/^(?:Dim\s+(\S+?)(?:\s+\(([^)]+)\))?|(Overall))\s*:\s*Mean tick time: ([\d.,]+) ms\. Mean TPS: ([\d.,]+)/);
+    if (!match) return null;
+    const toNumber = (value: string) => parseFloat(value.replace(",", "."));
     return {
-      available: await this.listAvailableMods(),
-      enabled: await this.listEnabledMods()
+      dimension: match[3] ?? match[1],
+      meanTickTime: toNumber(match[4]),
+      meanTps: toNumber(match[5])
     };
   }
+}
 
-  public async enableMods(...mods: string[]) {
-    const modsAvailable = Path.join(this.path, "modsavailable");
-    const modsEnabled = Path.join(this.path, "mods");
-    await fsp.mkdir(modsAvailable, { recursive: true });
-    await fsp.mkdir(modsEnabled, { recursive: true });
-    for (const mod of mods) {
-      if (!fsp.stat(Path.join(modsAvailable, mod)).then(() => true).catch(() => false)) {
-        throw new Error(`Mod ${mod} not found in modsavailable directory`);
-      }
-      await fsp.rename(Path.join(modsAvailable, mod), Path.join(modsEnabled, mod));
-    }
-  }
-
-  public async disableMods(...mods: string[]) {
-    const modsAvailable = Path.join(this.path, "modsavailable");
-    const modsEnabled = Path.join(this.path, "mods");
-    await fsp.mkdir(modsAvailable, { recursive: true });
-    await fsp.mkdir(modsEnabled, { recursive: true });
-    for (const mod of mods) {
-      if (!fsp.stat(Path.join(modsEnabled, mod)).then(() => true).catch(() => false)) {
-        throw new Error(`Mod ${mod} not found in mods directory`);
-      }
-      await fsp.rename(Path.join(modsEnabled, mod), Path.join(modsAvailable, mod));
-    }
-  }
-
+export namespace ForgeServer {
   /**
-   * Install a mod from CurseForge. If fileId is null or not found, the latest file will be downloaded.  
-   * It is possible for the specific fileId to not be available anymore for whatever reason, if that happens it will install the latest file of that mod.
-   * @param modId CurseForge mod ID
-   * @param fileId Specific file ID to download. If null or couldn't be found, the latest file will be downloaded
-   * @param enable Whether to enable the mod after downloading
-   * @returns The fileID of the downloaded mod. Check this against the fileId parameter to check if it downloaded the specific file or a different file.
+   * The `manifest.json` of a CurseForge modpack.
    */
-  public async installMod(modId: number, fileId: number | null = null, enable: boolean = true): Promise<number> {
-    const makeUrl = (page: number = 0) => `https://www.curseforge.com/api/v1/mods/${modId}/files?pageIndex=${page}&pageSize=50&sort=dateCreated&sortDescending=true&removeAlphas=true`
-    let pageIndex = 0;
-    let { data, pagination: { pageSize, totalCount } } = await fetch(makeUrl(pageIndex)).then(res => res.json());
-    const pages = Math.ceil(totalCount / pageSize);
-    if (!data) throw new Error("Failed to fetch mod data");
+  export interface ModpackManifest {
+    minecraft: {
+      version: string;
+      modLoaders: { id: string; primary?: boolean }[];
+    };
+    manifestType?: string;
+    name?: string;
+    version?: string;
+    author?: string;
+    files: { projectID: number; fileID: number; required?: boolean }[];
+    /**
+     * Folder with files to copy into the server. Default is `overrides`.
+     */
+    overrides?: string;
+  }
 
-    let first: any;
-    let modData: any;
-    do {
-      if (!data) {
-        ({ data } = await fetch(makeUrl(++pageIndex)).then(res => res.json()));
-      }
-      if (!first) first = data[0];
-      modData = fileId ? data.find((d: any) => d.id == fileId) : data[0];
+  export interface ModpackOptions extends Server.InstallOptions {
+    /**
+     * Whether to install Forge. Default is true.
+     */
+    installLoader?: boolean;
+    /**
+     * Number of mods downloaded at the same time. Default is 4.
+     */
+    concurrency?: number;
+  }
 
-      if (!modData) {
-        data = null;
-      }
-    }
-    while (!data && pageIndex < (pages - 1));
-    
-    let id = modData.id.toString();
-    let fileName: string = modData.fileName;
-    let [slice1, slice2] = [id.slice(0, 4), id.slice(4)];
-    while (slice2.startsWith("0")) {
-      slice2 = slice2.slice(1);
-    }
-    const url = `https://mediafilez.forgecdn.net/files/${slice1}/${slice2}/${encodeURIComponent(fileName)}`;
-    
-    const tmp = `${os.tmpdir()}/${id}_mod.jar`;
+  export interface ModpackReport {
+    name?: string;
+    version?: string;
+    minecraftVersion: string;
+    forgeVersion: string;
+    installed: { projectId: number; fileId: number }[];
+    /**
+     * Files that weren't available anymore, and the file that was installed in their place.
+     */
+    substituted: { projectId: number; requestedFileId: number; fileId: number }[];
+    failed: { projectId: number; fileId: number; error: string }[];
+    /**
+     * Number of override files copied into the server.
+     */
+    overrides: number;
+  }
 
-    const stream = fs.createWriteStream(tmp);
-    const buf = Buffer.from(await fetch(url).then(res => {
-      if (!res.ok) {
-        console.error(url);
-        throw new Error(`Failed to download mod: ${res.status} ${res.statusText}`);
-      }
-      return res.arrayBuffer();
-    }));
-    stream.write(buf);
-    stream.end();
+  export interface TpsEntry {
+    /**
+     * Id of the dimension, such as `minecraft:overworld`, or `Overall` for the whole server.
+     */
+    dimension: string;
+    /**
+     * Mean time in milliseconds a tick takes.
+     */
+    meanTickTime: number;
+    meanTps: number;
+  }
 
-    return new Promise<number>((resolve, reject) => {
-      stream.on("finish", async () => {
-        const modsAvailable = Path.join(this.path, "modsavailable");
-        await fsp.mkdir(modsAvailable, { recursive: true });
-        await fsp.cp(tmp, Path.join(modsAvailable, fileName));
-        if (enable) {
-          await this.enableMods(fileName);
-        }
-        resolve(id);
-      });
-      stream.on("error", async (err) => {
-        await fsp.rm(tmp);
-        reject(err);
-      });
-    });
+  export interface TpsReport {
+    /**
+     * Totals for the whole server. Undefined if the server didn't report them.
+     */
+    overall?: TpsEntry;
+    dimensions: TpsEntry[];
   }
 }
 
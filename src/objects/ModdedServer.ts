@@ -0,0 +1,832 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import os from "node:os";
+import { execFile } from "node:child_process";
+import Server from "./Server";
+import Downloader from "../Downloader";
+import ModProvider from "../ModProvider";
+import ModrinthProvider from "../ModrinthProvider";
+import ModInspector from "../ModInspector";
+import ModLock from "../ModLock";
+import Java from "../Java";
+import LaunchProfile from "../LaunchProfile";
+import ZipArchive from "../Zip";
+import { mapConcurrent } from "../Utilities";
+
+/**
+ * Base class for servers that load mods from a `mods` directory.  
+ * Disabled mods are kept in a `modsavailable` directory and moved between the two when enabled or disabled.
+ */
+export abstract class ModdedServer extends Server {
+  private lockUpdate: Promise<unknown> = Promise.resolve();
+
+  public async listAvailableMods() {
+    const modsAvailable = Path.join(this.path, "modsavailable");
+    await fsp.mkdir(modsAvailable, { recursive: true });
+    const available = await fsp.readdir(modsAvailable);
+
+    return available;
+  }
+
+  public async listEnabledMods() {
+    const modsEnabled = Path.join(this.path, "mods");
+    await fsp.mkdir(modsEnabled, { recursive: true });
+    const enabled = await fsp.readdir(modsEnabled);
+
+    return enabled;
+  }
+  
+  public async listMods() {
+    return {
+      available: await this.listAvailableMods(),
+      enabled: await this.listEnabledMods()
+    };
+  }
+
+  public async enableMods(...mods: string[]) {
+    const modsAvailable = Path.join(this.path, "modsavailable");
+    const modsEnabled = Path.join(this.path, "mods");
+    await fsp.mkdir(modsAvailable, { recursive: true });
+    await fsp.mkdir(modsEnabled, { recursive: true });
+    for (const mod of mods) {
+      if (!await fsp.stat(Path.join(modsAvailable, mod)).then(() => true).catch(() => false)) {
+        throw new Error(`Mod ${mod} not found in modsavailable directory`);
+      }
+      await fsp.rename(Path.join(modsAvailable, mod), Path.join(modsEnabled, mod));
+    }
+    await this.setLockedState(mods, true);
+  }
+
+  public async disableMods(...mods: string[]) {
+    const modsAvailable = Path.join(this.path, "modsavailable");
+    const modsEnabled = Path.join(this.path, "mods");
+    await fsp.mkdir(modsAvailable, { recursive: true });
+    await fsp.mkdir(modsEnabled, { recursive: true });
+    for (const mod of mods) {
+      if (!await fsp.stat(Path.join(modsEnabled, mod)).then(() => true).catch(() => false)) {
+        throw new Error(`Mod ${mod} not found in mods directory`);
+      }
+      await fsp.rename(Path.join(modsEnabled, mod), Path.join(modsAvailable, mod));
+    }
+    await this.setLockedState(mods, false);
+  }
+
+  private async setLockedState(mods: string[], enabled: boolean) {
+    await this.updateLock(lock => {
+      let changed = false;
+      for (const entry of lock.mods) {
+        if (mods.includes(entry.fileName) && entry.enabled !== enabled) {
+          entry.enabled = enabled;
+          changed = true;
+        }
+      }
+      return changed;
+    });
+  }
+
+  /**
+   * Read `ionmc.lock.json`, the record of every mod installed through `installModFrom`, `installMod`, `importModpack` and `importMrpack`.
+   */
+  public async getModLock(): Promise<ModLock.Lockfile> {
+    return await ModLock.read(this.path);
+  }
+
+  /**
+   * Change the lockfile. Changes are made one at a time, so mods installed at the same time don't lose each other's entries.
+   * @param fn Changes the lock. Return false to leave the file as it is.
+   */
+  protected updateLock(fn: (lock: ModLock.Lockfile) => boolean | void): Promise<ModLock.Lockfile> {
+    const update = this.lockUpdate.catch(() => {}).then(async () => {
+      const lock = await ModLock.read(this.path);
+      if (fn(lock) !== false) {
+        await ModLock.write(this.path, lock);
+      }
+      return lock;
+    });
+    this.lockUpdate = update;
+    return update;
+  }
+
+  /**
+   * Record an installed file in the lockfile.
+   * A file of the same project that was installed before is deleted, if its name is different.
+   */
+  protected async lockMod(file: ModProvider.ModFile, enabled: boolean) {
+    const path = Path.join(this.path, enabled ? "mods" : "modsavailable", file.fileName);
+    const entry: ModLock.Entry = {
+      provider: file.provider,
+      projectId: file.projectId,
+      fileId: file.fileId,
+      requestedFileId: file.requestedFileId,
+      fileName: file.fileName,
+      url: file.url,
+      sha1: await ModLock.hashFile(path),
+      size: (await fsp.stat(path)).size,
+      enabled,
+      installedAt: new Date().toISOString()
+    };
+    let replaced: ModLock.Entry[] = [];
+    await this.updateLock(lock => {
+      lock.minecraftVersion = this.version;
+      lock.loader = this.getLoader();
+      replaced = ModLock.upsert(lock, entry);
+    });
+    for (const old of replaced) {
+      if (old.fileName === entry.fileName) continue;
+      await fsp.rm(Path.join(this.path, old.enabled ? "mods" : "modsavailable", old.fileName), { force: true });
+    }
+  }
+
+  /**
+   * Find a mod in `mods` or `modsavailable`.
+   * @returns Whether the mod is enabled, or null if it's in neither.
+   */
+  private async locateMod(mod: string): Promise<boolean | null> {
+    if (await fsp.stat(Path.join(this.path, "mods", mod)).then(() => true).catch(() => false)) return true;
+    if (await fsp.stat(Path.join(this.path, "modsavailable", mod)).then(() => true).catch(() => false)) return false;
+    return null;
+  }
+
+  /**
+   * Compare the mods against the lockfile.
+   * Reports locked mods that are missing, have been changed or were enabled or disabled without the library, and jars that aren't in the lockfile.
+   */
+  public async verifyMods(): Promise<ModdedServer.ModVerifyReport> {
+    const lock = await ModLock.read(this.path);
+    const report: ModdedServer.ModVerifyReport = { ok: true, issues: [] };
+    for (const entry of lock.mods) {
+      const enabled = await this.locateMod(entry.fileName);
+      if (enabled === null) {
+        report.issues.push({ type: "missing", fileName: entry.fileName, message: `${entry.fileName} is missing` });
+        continue;
+      }
+      const sha1 = await ModLock.hashFile(Path.join(this.path, enabled ? "mods" : "modsavailable", entry.fileName));
+      if (sha1 !== entry.sha1) {
+        report.issues.push({ type: "modified", fileName: entry.fileName, expected: entry.sha1, actual: sha1, message: `${entry.fileName} has been changed` });
+      }
+      if (enabled !== entry.enabled) {
+        const state = (enabled: boolean) => enabled ? "enabled" : "disabled";
+        report.issues.push({
+          type: "state-changed",
+          fileName: entry.fileName,
+          expected: state(entry.enabled),
+          actual: state(enabled),
+          message: `${entry.fileName} should be ${state(entry.enabled)}, but is ${state(enabled)}`
+        });
+      }
+    }
+
+    const tracked = new Set(lock.mods.map(e => e.fileName));
+    const { available, enabled } = await this.listMods();
+    for (const file of [...enabled, ...available]) {
+      if (file.endsWith(".jar") && !tracked.has(file)) {
+        report.issues.push({ type: "untracked", fileName: file, message: `${file} isn't in the lockfile` });
+      }
+    }
+
+    report.ok = report.issues.length === 0;
+    return report;
+  }
+
+  /**
+   * Make the mods match the lockfile, such as on a fresh server with a copied lockfile.
+   * Missing and changed files are downloaded again from their recorded URL and checked against their recorded checksum, and mods are moved to `mods` or `modsavailable` by their recorded state.
+   * Jars that aren't in the lockfile are left alone, unless `removeUntracked` is set.
+   */
+  public async syncMods(opts?: ModdedServer.SyncModsOptions): Promise<ModdedServer.SyncModsReport> {
+    opts ??= {};
+    const lock = await ModLock.read(this.path);
+    const report: ModdedServer.SyncModsReport = { installed: [], moved: [], unchanged: [], failed: [], removed: [] };
+    const modsAvailable = Path.join(this.path, "modsavailable");
+    const modsEnabled = Path.join(this.path, "mods");
+    await fsp.mkdir(modsAvailable, { recursive: true });
+    await fsp.mkdir(modsEnabled, { recursive: true });
+
+    const downloader = opts.downloader ?? new Downloader();
+    const results = await mapConcurrent(lock.mods, opts.concurrency ?? 4, async (entry): Promise<"installed" | "moved" | "unchanged"> => {
+      const target = Path.join(entry.enabled ? modsEnabled : modsAvailable, entry.fileName);
+      const enabled = await this.locateMod(entry.fileName);
+      if (enabled !== null) {
+        const current = Path.join(enabled ? modsEnabled : modsAvailable, entry.fileName);
+        if (await ModLock.hashFile(current) === entry.sha1) {
+          if (enabled === entry.enabled) return "unchanged";
+          await fsp.rename(current, target);
+          return "moved";
+        }
+        await fsp.rm(current, { force: true });
+      }
+      await downloader.download(entry.url, target, { sha1: entry.sha1, size: entry.size });
+      return "installed";
+    });
+    results.forEach((result, i) => {
+      const fileName = lock.mods[i].fileName;
+      if (result.status === "fulfilled") report[result.value].push(fileName);
+      else report.failed.push({ fileName, error: result.reason?.message ?? String(result.reason) });
+    });
+
+    if (opts.removeUntracked) {
+      const tracked = new Set(lock.mods.map(e => e.fileName));
+      for (const directory of [modsEnabled, modsAvailable]) {
+        for (const file of await fsp.readdir(directory)) {
+          if (!file.endsWith(".jar") || tracked.has(file)) continue;
+          await fsp.rm(Path.join(directory, file), { force: true });
+          report.removed.push(file);
+        }
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Look up the newest file compatible with the version and loader of this server for every locked mod.
+   * Install an update with `installModFrom(update.provider, update.projectId, { fileId: update.latestFileId })`, which replaces the old file.
+   * Mods from providers that aren't registered, such as files of modpacks that only list a URL, are left out.
+   */
+  public async checkModUpdates(opts?: Server.InstallOptions): Promise<ModdedServer.ModUpdateReport> {
+    const lock = await ModLock.read(this.path);
+    const entries = lock.mods.filter(e => e.provider in ModProvider.providers);
+    const results = await mapConcurrent(entries, 4, async entry => {
+      return await ModProvider.get(entry.provider).resolve(entry.projectId, {
+        gameVersion: this.version,
+        loader: this.getLoader(),
+        // Revalidate cached file listings, so files published since the last request aren't missed
+        api: { ...opts?.api, cacheTtl: 0 }
+      });
+    });
+
+    const report: ModdedServer.ModUpdateReport = { updates: [], failed: [] };
+    results.forEach((result, i) => {
+      const entry = entries[i];
+      if (result.status === "rejected") {
+        report.failed.push({ fileName: entry.fileName, error: result.reason?.message ?? String(result.reason) });
+        return;
+      }
+      const latest = result.value;
+      // Numeric ids, like CurseForge's, only go up. Otherwise the newest file is assumed to be newer if it's a different one
+      const newer = /^\d+$/.test(latest.fileId) && /^\d+$/.test(entry.fileId)
+        ? parseInt(latest.fileId) > parseInt(entry.fileId)
+        : latest.fileId !== entry.fileId;
+      if (newer) {
+        report.updates.push({
+          provider: entry.provider,
+          projectId: entry.projectId,
+          fileName: entry.fileName,
+          currentFileId: entry.fileId,
+          latestFileId: latest.fileId,
+          latestFileName: latest.fileName
+        });
+      }
+    });
+    return report;
+  }
+
+  /**
+   * Read the metadata of a mod jar. Looks in `mods` first and `modsavailable` second.
+   * @param mod File name of the mod jar.
+   */
+  public async getModInfo(mod: string): Promise<ModInspector.JarInfo> {
+    let jarPath = Path.join(this.path, "mods", mod);
+    if (!await fsp.stat(jarPath).then(() => true).catch(() => false)) {
+      jarPath = Path.join(this.path, "modsavailable", mod);
+    }
+    return await ModInspector.inspect(jarPath);
+  }
+
+  /**
+   * Read the metadata of every enabled and available mod.
+   */
+  public async getModInfos() {
+    const { available, enabled } = await this.listMods();
+    const jars = (files: string[]) => files.filter(f => f.endsWith(".jar"));
+    return {
+      available: await Promise.all(jars(available).map(m => this.getModInfo(m))),
+      enabled: await Promise.all(jars(enabled).map(m => this.getModInfo(m)))
+    };
+  }
+
+  /**
+   * Ids mods can depend on that aren't mod jars, such as `minecraft` and the loader itself, mapped to their version.
+   * The version is undefined if it isn't known, in which case any version is accepted.
+   */
+  protected getBuiltinMods(): Record<string, string | undefined> {
+    return {
+      minecraft: this.version,
+      java: this.java?.majorVersion.toString()
+    };
+  }
+
+  /**
+   * Whether this server's loader can load a jar.
+   */
+  protected supportsJar(jar: ModInspector.JarInfo): boolean {
+    return jar.loaders.includes(this.getLoader());
+  }
+
+  /**
+   * Check the enabled mods for problems that would make the server fail to start, without starting it:
+   * missing or incompatible dependencies, mod ids provided by more than one jar, mods for another loader or Minecraft version, and client-only mods.
+   * Jars without any mod metadata are assumed to be libraries and aren't checked.
+   */
+  public async checkMods(): Promise<ModdedServer.ModCheckReport> {
+    const report: ModdedServer.ModCheckReport = { ok: true, mods: [], issues: [] };
+    const files = (await this.listEnabledMods()).filter(f => f.endsWith(".jar"));
+    for (const file of files) {
+      try {
+        report.mods.push(await ModInspector.inspect(Path.join(this.path, "mods", file)));
+      } catch (error: unknown) {
+        report.issues.push({ type: "unreadable", file, message: `${file} can't be read: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    }
+
+    const builtin = this.getBuiltinMods();
+    const provided = new Map<string, { file: string; version: string }[]>();
+    for (const jar of report.mods) {
+      for (const mod of jar.mods) {
+        if (!provided.has(mod.id)) provided.set(mod.id, []);
+        provided.get(mod.id)!.push({ file: jar.file, version: mod.version });
+      }
+    }
+
+    for (const [modId, providers] of provided) {
+      if (providers.length > 1) {
+        report.issues.push({
+          type: "duplicate",
+          file: providers[0].file,
+          modId,
+          message: `${modId} is provided by ${providers.map(p => p.file).join(", ")}`
+        });
+      }
+    }
+
+    for (const jar of report.mods) {
+      if (jar.loaders.length > 0 && !this.supportsJar(jar)) {
+        report.issues.push({
+          type: "wrong-loader",
+          file: jar.file,
+          message: `${jar.file} is for ${jar.loaders.join(", ")}, not ${this.getLoader()}`
+        });
+        continue;
+      }
+
+      for (const mod of jar.mods) {
+        if (mod.side === "client") {
+          report.issues.push({ type: "client-only", file: jar.file, modId: mod.id, message: `${mod.id} only runs on clients` });
+        }
+
+        for (const dependency of mod.dependencies) {
+          if (dependency.side === "client") continue;
+          const isBuiltin = dependency.id in builtin;
+          const versions = isBuiltin ? [builtin[dependency.id]] : provided.get(dependency.id)?.map(p => p.version);
+          const issue = { file: jar.file, modId: mod.id, dependency: dependency.id, versionRange: dependency.versionRange };
+
+          if (dependency.type === "incompatible" || dependency.type === "discouraged") {
+            const conflicting = versions?.find(v => v !== undefined && ModInspector.satisfies(v, dependency.versionRange, mod.rangeStyle));
+            if (conflicting !== undefined) {
+              report.issues.push({ ...issue, type: "incompatible", found: conflicting, message: `${mod.id} is incompatible with ${dependency.id} ${conflicting}` });
+            }
+            continue;
+          }
+
+          if (!versions) {
+            if (dependency.type === "required") {
+              report.issues.push({ ...issue, type: "missing-dependency", message: `${mod.id} requires ${dependency.id}${dependency.versionRange ? ` ${dependency.versionRange}` : ""}, which isn't installed` });
+            }
+            continue;
+          }
+
+          // Unknown versions of built-in ids are accepted
+          const known = versions.filter((v): v is string => v !== undefined);
+          if (known.length > 0 && !known.some(v => ModInspector.satisfies(v, dependency.versionRange, mod.rangeStyle))) {
+            report.issues.push({
+              ...issue,
+              type: "version-mismatch",
+              found: known.join(", "),
+              message: `${mod.id} requires ${dependency.id} ${dependency.versionRange}, found ${known.join(", ")}`
+            });
+          }
+        }
+      }
+    }
+
+    // Optional dependencies and client-only mods don't stop the server from starting
+    report.ok = !report.issues.some(i => i.type !== "client-only");
+    return report;
+  }
+
+  /**
+   * Name of the mod loader of this server, as mod providers know it, such as `forge` or `fabric`.
+   */
+  public abstract getLoader(): string;
+
+  /**
+   * Install a mod from CurseForge. If fileId is null or not found, the latest file will be downloaded.  
+   * It is possible for the specific fileId to not be available anymore for whatever reason, if that happens it will install the latest file of that mod.
+   * @param modId CurseForge mod ID
+   * @param fileId Specific file ID to download. If null or couldn't be found, the latest file will be downloaded
+   * @param enable Whether to enable the mod after downloading
+   * @param opts Options for the download
+   * @returns The fileID of the downloaded mod. Check this against the fileId parameter to check if it downloaded the specific file or a different file.
+   */
+  public async installMod(modId: number, fileId: number | null = null, enable: boolean = true, opts?: Server.InstallOptions): Promise<number> {
+    const [file] = await this.installModFrom("curseforge", modId, { ...opts, fileId, enable, dependencies: false });
+    return parseInt(file.fileId);
+  }
+
+  /**
+   * Install a mod from a provider, such as `modrinth` or `curseforge`, with the files compatible with the version and loader of this server.  
+   * Required dependencies are installed as well, unless a file with the same name is in the mods already.  
+   * Every installed file is recorded in the lockfile. A file of the same mod that was installed before is replaced.
+   * @param projectId Id of the mod. Modrinth accepts its slug as well.
+   * @returns The installed files, the mod first. Check `requestedFileId` to see if a different file was installed than asked for.
+   */
+  public async installModFrom(provider: ModProvider | string, projectId: string | number, opts?: ModdedServer.InstallModOptions): Promise<ModProvider.ModFile[]> {
+    opts ??= {};
+    const resolveOptions: ModProvider.ResolveOptions = {
+      fileId: opts.fileId,
+      gameVersion: this.version,
+      loader: this.getLoader(),
+      api: opts.api
+    };
+    const source = ModProvider.get(provider);
+    const files = opts.dependencies === false
+      ? [await source.resolve(projectId, resolveOptions)]
+      : await ModProvider.resolveWithDependencies(source, projectId, resolveOptions);
+
+    const { available, enabled } = await this.listMods();
+    const present = new Set([...available, ...enabled]);
+    const installed: ModProvider.ModFile[] = [];
+    const downloader = opts.downloader ?? new Downloader();
+    for (const [i, file] of files.entries()) {
+      // Dependencies that are there already are left alone
+      if (i > 0 && present.has(file.fileName)) continue;
+      await downloader.download(file.url, Path.join(this.path, "modsavailable", file.fileName), {
+        sha1: file.sha1,
+        sha512: file.sha512,
+        size: file.size
+      });
+      if (opts.enable !== false) {
+        await this.enableMods(file.fileName);
+      }
+      await this.lockMod(file, opts.enable !== false);
+      installed.push(file);
+    }
+    return installed;
+  }
+
+  /**
+   * Import a Modrinth modpack, from its `.mrpack` file or an extracted directory.
+   *
+   * The Minecraft and loader versions are taken from the index and the loader is installed, unless `installLoader` is false.
+   * Files the pack marks as unsupported on servers are skipped, and every other file is downloaded and checked against its checksums, a few at a time.
+   * Finally the `overrides` folder is copied into the server directory, followed by the `server-overrides` folder.
+   * @returns What was installed, skipped and failed.
+   * @throws Error if the index is missing or the pack is for a different loader.
+   */
+  public async importMrpack(source: string, opts?: ModdedServer.MrpackOptions): Promise<ModdedServer.MrpackReport> {
+    opts ??= {};
+    const isDirectory = await fsp.stat(source).then(s => s.isDirectory());
+    const zip = isDirectory ? null : await ZipArchive.open(source);
+    try {
+      const indexText = zip ? await zip.readText("modrinth.index.json") : await fsp.readFile(Path.join(source, "modrinth.index.json"), "utf-8").catch(() => undefined);
+      if (!indexText) throw new Error(`No modrinth.index.json found in ${source}`);
+      const index: ModrinthProvider.PackIndex = JSON.parse(indexText);
+
+      this.version = index.dependencies.minecraft;
+      const loaderVersion = this.applyPackLoader(index.dependencies);
+      if (opts.installLoader !== false) {
+        await this.installServer(opts);
+      }
+
+      const report: ModdedServer.MrpackReport = {
+        name: index.name,
+        version: index.versionId,
+        minecraftVersion: this.version,
+        loader: this.getLoader(),
+        loaderVersion,
+        installed: [],
+        skipped: [],
+        failed: [],
+        overrides: 0
+      };
+
+      const files = index.files.filter(file => {
+        if (file.env?.server !== "unsupported") return true;
+        report.skipped.push(file.path);
+        return false;
+      });
+      const downloader = opts.downloader ?? new Downloader();
+      const results = await mapConcurrent(files, opts.concurrency ?? 4, async file => {
+        const target = Path.resolve(this.path, file.path);
+        // Paths may not point outside the server directory
+        if (!target.startsWith(this.path + Path.sep)) throw new Error(`Invalid path ${file.path}`);
+        let result: Downloader.Result | undefined;
+        let lastError: unknown;
+        for (const url of file.downloads) {
+          try {
+            result = await downloader.download(url, target, { sha1: file.hashes.sha1, sha512: file.hashes.sha512, size: file.fileSize });
+            break;
+          } catch (error) {
+            lastError = error;
+          }
+        }
+        if (!result) throw lastError ?? new Error("No download URLs");
+
+        if (Path.dirname(target) === Path.join(this.path, "mods")) {
+          // Files from Modrinth keep their ids, so they can be checked for updates
+          const fileName = Path.basename(target);
+          const ids = ModLock.parseModrinthUrl(result.url);
+          await this.lockMod({
+            provider: ids ? "modrinth" : "url",
+            projectId: ids?.projectId ?? fileName,
+            fileId: ids?.fileId ?? file.hashes.sha1,
+            fileName,
+            url: result.url,
+            dependencies: []
+          }, true);
+        }
+        return result;
+      });
+      results.forEach((result, i) => {
+        if (result.status === "fulfilled") report.installed.push(files[i].path);
+        else report.failed.push({ path: files[i].path, error: result.reason?.message ?? String(result.reason) });
+      });
+
+      for (const folder of ["overrides", "server-overrides"]) {
+        report.overrides += zip
+          ? await this.extractOverrides(zip, folder)
+          : await this.copyOverrides(Path.join(source, folder));
+      }
+      return report;
+    }
+    finally {
+      await zip?.close();
+    }
+  }
+
+  /**
+   * Name of the script Forge-style installers write to start the server, `run.sh` or `run.bat` on Windows.
+   */
+  protected getRunScript(): string {
+    return os.platform() !== "win32" ? "run.sh" : "run.bat";
+  }
+
+  /**
+   * Run a Forge-style installer headlessly with `--installServer` in the server directory and wait for it to exit.
+   * The installer writes a run script pointing at an argument file in `libraries`, both of which are checked afterwards.
+   * @param installer Path to the installer jar.
+   * @returns The file name of the run script.
+   * @throws Error with the end of the installer output if it fails, or if the run script or argument file is missing.
+   */
+  protected async runServerInstaller(java: Java.Runtime, installer: string): Promise<string> {
+    await this.ensurePathExists();
+    await new Promise<void>((resolve, reject) => {
+      execFile(java.path, ["-Djava.awt.headless=true", "-jar", installer, "--installServer"], { cwd: this.path, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (!error) return resolve();
+        const output = `${stdout}${stderr}`.trim().split(/\r?\n/).slice(-10).join("\n");
+        const reason = typeof error.code === "number" ? `exited with code ${error.code}` : `failed: ${error.message}`;
+        reject(new Error(`Installer ${reason}${output ? `\n${output}` : ""}`));
+      });
+    });
+    await this.readArgsFile();
+    return this.getRunScript();
+  }
+
+  /**
+   * Read the argument file from the run script a Forge-style installer wrote.
+   * @returns Path of the argument file, relative to the server directory.
+   * @throws Error if the run script or the argument file is missing.
+   */
+  protected async readArgsFile(): Promise<string> {
+    const runner = this.getRunScript();
+    const runnerData = await fsp.readFile(Path.join(this.path, runner), "utf-8").catch(() => undefined);
+    if (runnerData === undefined) {
+      throw new Error(`No ${runner} found. Install the server first.`);
+    }
+    const argsFile = runnerData.match(/@(libraries[\\/]\S+?_args\.txt)/)?.[1];
+    if (!argsFile) {
+      throw new Error(`No argument file found in ${runner}. Reinstall the server.`);
+    }
+    if (!await fsp.stat(Path.join(this.path, argsFile)).then(() => true).catch(() => false)) {
+      throw new Error(`Argument file ${argsFile} from ${runner} is missing. Reinstall the server.`);
+    }
+    return argsFile;
+  }
+
+  /**
+   * Start Java directly with the argument file a Forge-style installer generated, which is read from the run script.
+   * `user_jvm_args.txt` is included before the launch profile, so flags from the profile take precedence.
+   */
+  protected async buildRunScriptCommandLine(java: Java.Runtime): Promise<Server.CommandLine> {
+    const argsFile = await this.readArgsFile();
+    const userArgsFile = Path.join(this.path, "user_jvm_args.txt");
+    const userArgs = await fsp.stat(userArgsFile).then(() => [`@${userArgsFile}`]).catch(() => []);
+    const profile = LaunchProfile.merge({
+      systemProperties: { "terminal.jline": false } // Disable colored output
+    }, this.launchProfile);
+
+    return {
+      command: java.path,
+      args: [
+        ...userArgs,
+        ...LaunchProfile.renderJvmArgs(profile, this.memory),
+        `@${Path.join(this.path, argsFile)}`,
+        "--nogui",
+        ...profile.serverArgs ?? []
+      ],
+      cwd: Path.resolve(this.path, profile.cwd ?? "."),
+      env: LaunchProfile.renderEnv(profile)
+    };
+  }
+
+  /**
+   * Set the loader version of this server from the dependencies of a modpack.
+   * @returns The loader version.
+   * @throws Error if the pack is for a different loader.
+   */
+  protected abstract applyPackLoader(dependencies: Record<string, string>): string;
+
+  /**
+   * Extract the entries under a folder of a zip archive into the server directory.
+   * @returns The number of files written.
+   */
+  protected async extractOverrides(zip: ZipArchive, folder: string): Promise<number> {
+    const prefix = folder.replace(/\/+$/, "") + "/";
+    let count = 0;
+    for (const entry of zip.entries) {
+      if (entry.isDirectory || !entry.name.startsWith(prefix)) continue;
+      const target = Path.resolve(this.path, entry.name.slice(prefix.length));
+      // Entries may not point outside the server directory
+      if (!target.startsWith(this.path + Path.sep)) continue;
+      await fsp.mkdir(Path.dirname(target), { recursive: true });
+      await fsp.writeFile(target, await zip.read(entry));
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Copy a directory of overrides into the server directory.
+   * @returns The number of files copied.
+   */
+  protected async copyOverrides(directory: string): Promise<number> {
+    const files = await fsp.readdir(directory, { recursive: true, withFileTypes: true }).catch(() => []);
+    const count = files.filter(f => f.isFile()).length;
+    if (count > 0) {
+      await fsp.cp(directory, this.path, { recursive: true });
+    }
+    return count;
+  }
+}
+
+export namespace ModdedServer {
+  export type ModIssueType = "missing-dependency" | "version-mismatch" | "incompatible" | "duplicate" | "wrong-loader" | "client-only" | "unreadable";
+
+  export interface ModIssue {
+    type: ModIssueType;
+    /**
+     * File name of the jar the issue was found in.
+     */
+    file: string;
+    modId?: string;
+    dependency?: string;
+    versionRange?: string;
+    /**
+     * Version of the dependency that was found.
+     */
+    found?: string;
+    message: string;
+  }
+
+  export interface ModCheckReport {
+    /**
+     * Whether no issue would stop the server from starting. Client-only mods are reported but don't count.
+     */
+    ok: boolean;
+    /**
+     * Metadata of the enabled mods.
+     */
+    mods: ModInspector.JarInfo[];
+    issues: ModIssue[];
+  }
+
+  export type ModVerifyIssueType = "missing" | "modified" | "state-changed" | "untracked";
+
+  export interface ModVerifyIssue {
+    type: ModVerifyIssueType;
+    fileName: string;
+    /**
+     * Checksum or state in the lockfile.
+     */
+    expected?: string;
+    /**
+     * Checksum or state that was found.
+     */
+    actual?: string;
+    message: string;
+  }
+
+  export interface ModVerifyReport {
+    /**
+     * Whether the mods match the lockfile exactly.
+     */
+    ok: boolean;
+    issues: ModVerifyIssue[];
+  }
+
+  export interface SyncModsOptions extends Server.InstallOptions {
+    /**
+     * Whether to delete jars that aren't in the lockfile. Default is false.
+     */
+    removeUntracked?: boolean;
+    /**
+     * Number of files downloaded at the same time. Default is 4.
+     */
+    concurrency?: number;
+  }
+
+  export interface SyncModsReport {
+    /**
+     * File names of the mods that were downloaded.
+     */
+    installed: string[];
+    /**
+     * File names of the mods that were enabled or disabled to match the lockfile.
+     */
+    moved: string[];
+    unchanged: string[];
+    failed: { fileName: string; error: string }[];
+    /**
+     * File names of the untracked jars that were deleted.
+     */
+    removed: string[];
+  }
+
+  export interface ModUpdate {
+    provider: string;
+    projectId: string;
+    /**
+     * File name of the installed file.
+     */
+    fileName: string;
+    currentFileId: string;
+    latestFileId: string;
+    latestFileName: string;
+  }
+
+  export interface ModUpdateReport {
+    updates: ModUpdate[];
+    /**
+     * Mods that couldn't be looked up.
+     */
+    failed: { fileName: string; error: string }[];
+  }
+
+  export interface InstallModOptions extends Server.InstallOptions {
+    /**
+     * Specific file to install. The newest compatible file is installed if it isn't set or isn't available.
+     */
+    fileId?: string | number | null;
+    /**
+     * Whether to enable the mods after downloading. Default is true.
+     */
+    enable?: boolean;
+    /**
+     * Whether to install required dependencies. Default is true.
+     */
+    dependencies?: boolean;
+  }
+
+  export interface MrpackOptions extends Server.InstallOptions {
+    /**
+     * Whether to install the loader. Default is true.
+     */
+    installLoader?: boolean;
+    /**
+     * Number of files downloaded at the same time. Default is 4.
+     */
+    concurrency?: number;
+  }
+
+  export interface MrpackReport {
+    name: string;
+    version: string;
+    minecraftVersion: string;
+    loader: string;
+    loaderVersion: string;
+    /**
+     * Paths of the installed files, relative to the server directory.
+     */
+    installed: string[];
+    /**
+     * Paths of client-only files that weren't installed.
+     */
+    skipped: string[];
+    failed: { path: string; error: string }[];
+    /**
+     * Number of override files copied into the server.
+     */
+    overrides: number;
+  }
+}
+
+export default ModdedServer;
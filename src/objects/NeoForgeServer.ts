@@ -0,0 +1,113 @@
+import fsp from "node:fs/promises";
+import os from "node:os";
+import Server from "./Server";
+import ModdedServer from "./ModdedServer";
+import ForgeServer from "./ForgeServer";
+import MinecraftApi from "../MinecraftApi";
+import Downloader from "../Downloader";
+import Java from "../Java";
+import ModInspector from "../ModInspector";
+
+/**
+ * Represents a NeoForge minecraft server.
+ * @experimental
+ */
+export class NeoForgeServer extends ModdedServer {
+
+  protected neoforgeVersion?: string;
+
+  public setNeoForgeVersion(version: string): this {
+    this.neoforgeVersion = version;
+    return this;
+  }
+
+  public getNeoForgeVersion() {
+    return this.neoforgeVersion;
+  }
+
+  /**
+   * Starts Java directly with the argument file the NeoForge installer generated, which is read from the run script.
+   * `user_jvm_args.txt` is included before the launch profile, so flags from the profile take precedence.
+   */
+  protected async buildCommandLine(java: Java.Runtime): Promise<Server.CommandLine> {
+    return await this.buildRunScriptCommandLine(java);
+  }
+
+  /**
+   * NeoForge logs in the same format as Forge.
+   */
+  public static parseData(data: string): Server.ParsedData {
+    return ForgeServer.parseData(data);
+  }
+
+  /**
+   * Install NeoForge. If no NeoForge version is set, the newest stable version for the Minecraft version is installed, or the newest beta if there is no stable version yet.
+   */
+  public async installServer(opts?: Server.InstallOptions) {
+    opts ??= {};
+
+    const versionData = await MinecraftApi.getServerData(this.version ?? "latest", opts.api);
+    this.version = versionData.id;
+
+    if (!this.neoforgeVersion || this.neoforgeVersion === "latest") {
+      const versions = await MinecraftApi.getNeoForgeVersions(this.version, opts.api);
+      const version = versions.find(v => !v.includes("-")) ?? versions[0];
+      if (!version) throw new Error(`No NeoForge version available for ${this.version}`);
+      this.neoforgeVersion = version;
+    }
+
+    const dlUrl = MinecraftApi.getNeoForgeInstallerUrl(this.version, this.neoforgeVersion, opts.api?.endpoints?.neoforgeMaven);
+
+    const downloader = opts.downloader ?? new Downloader();
+    // Maven publishes a checksum next to each artifact
+    const sha1 = await downloader.fetchText(`${dlUrl}.sha1`).then(text => text.trim().split(/\s+/)[0]).catch(() => undefined);
+
+    const rnd = Math.floor(Math.random() * 1000000).toString(16);
+    const tmp = `${os.tmpdir()}/${rnd}_neoforge-installer.jar`;
+    await downloader.download(dlUrl, tmp, { sha1 });
+
+    const java = await this.resolveJava();
+    try {
+      this.jarFile = await this.runServerInstaller(java, tmp);
+    }
+    finally {
+      await fsp.rm(tmp, { force: true });
+    }
+  }
+
+  public getLoader(): string {
+    return "neoforge";
+  }
+
+  protected getBuiltinMods(): Record<string, string | undefined> {
+    const builtin: Record<string, string | undefined> = { ...super.getBuiltinMods(), neoforge: this.neoforgeVersion };
+    // NeoForge for 1.20.1 is still a Forge fork, and its mods depend on forge
+    if (this.version === "1.20.1") builtin.forge = this.neoforgeVersion;
+    return builtin;
+  }
+
+  /**
+   * NeoForge loads Forge mods up to Minecraft 1.20.4, before it renamed its metadata to `neoforge.mods.toml`.
+   */
+  protected supportsJar(jar: ModInspector.JarInfo): boolean {
+    if (jar.loaders.includes("neoforge")) return true;
+    return jar.loaders.includes("forge") && !!this.version && ModInspector.compareVersions(this.version, "1.20.5") < 0;
+  }
+
+  protected applyPackLoader(dependencies: Record<string, string>): string {
+    if (!dependencies.neoforge) {
+      throw new Error(`Modpack is for ${Object.keys(dependencies).filter(d => d !== "minecraft").join(", ") || "an unknown loader"}, not NeoForge.`);
+    }
+    return this.neoforgeVersion = dependencies.neoforge;
+  }
+
+  public getDefaultJarFile(): string {
+    return this.getRunScript();
+  }
+
+  public getServerJarPath(): string {
+    return `${this.path}/${this.jarFile}`;
+  }
+}
+
+export default NeoForgeServer;
@@ -0,0 +1,285 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import Server from "./Server";
+import MinecraftApi from "../MinecraftApi";
+import ZipArchive from "../Zip";
+import Downloader from "../Downloader";
+
+/**
+ * Represents a Paper minecraft server. Plugin management also works for Spigot and other Bukkit based servers.
+ * @experimental
+ */
+export class PaperServer extends Server {
+
+  /**
+   * PaperMC project to download builds from. Default is `paper`.
+   */
+  public project: string = "paper";
+
+  protected build?: number | "latest";
+
+  /**
+   * Base URL of the PaperMC API used by this server. Default is `MinecraftApi.paperApiUrl`.
+   */
+  public paperApiUrl?: string;
+
+  public setBuild(build: number | "latest"): this {
+    this.build = build;
+    return this;
+  }
+
+  public getBuild() {
+    return this.build;
+  }
+
+  public setProject(project: string): this {
+    this.project = project;
+    return this;
+  }
+
+  public setPaperApiUrl(url: string): this {
+    this.paperApiUrl = url;
+    return this;
+  }
+
+  public getDefaultJarFile(): string {
+    return "paper.jar";
+  }
+
+  public static parseData(data: string): Server.ParsedData {
+    // Example:
+    // [14:47:20 INFO]: Done (3.512s)! For help, type "help"
+    const format = /\[(\d+:\d+:\d+) (\w+)\]: (.+)/;
+    const match = data.match(format);
+    if (match) {
+      const [, time, type, message] = match;
+      return {
+        time,
+        thread: "Server thread",
+        type,
+        message: message.trim()
+      };
+    }
+    return super.parseData(data);
+  }
+
+  /**
+   * Download the set build of the set version and verify its checksum.
+   * A build that is not set or set to `latest` is resolved to the newest build of the version.
+   */
+  public async installServer(opts?: Server.InstallOptions) {
+    opts ??= {};
+    const apiUrl = this.paperApiUrl ?? opts.api?.endpoints?.paperApi ?? MinecraftApi.paperApiUrl;
+    // The URL of this server takes precedence over the endpoints of the request
+    const api: MinecraftApi.RequestOptions = { ...opts.api, endpoints: { ...opts.api?.endpoints, paperApi: apiUrl } };
+
+    if (!this.version || this.version === "latest") {
+      const versions = await MinecraftApi.getPaperVersions(this.project, apiUrl, api);
+      this.version = versions[versions.length - 1];
+    }
+
+    const builds = await MinecraftApi.getPaperBuilds(this.version, this.project, apiUrl, api);
+    const buildData = !this.build || this.build === "latest"
+      ? builds[builds.length - 1]
+      : builds.find(b => b.build === this.build);
+    if (!buildData) {
+      throw new Error(`Build ${this.build ?? "latest"} of ${this.project} ${this.version} not found`);
+    }
+    this.build = buildData.build;
+
+    const { name, sha256 } = buildData.downloads.application;
+    const dlUrl = `${apiUrl}/v2/projects/${this.project}/versions/${this.version}/builds/${buildData.build}/downloads/${name}`;
+
+    const downloader = opts.downloader ?? new Downloader();
+    await downloader.download(dlUrl, this.getServerJarPath(), { sha256 });
+  }
+
+  public async listAvailablePlugins() {
+    const pluginsAvailable = Path.join(this.path, "pluginsavailable");
+    await fsp.mkdir(pluginsAvailable, { recursive: true });
+    const available = await fsp.readdir(pluginsAvailable);
+
+    return available.filter(f => f.endsWith(".jar"));
+  }
+
+  public async listEnabledPlugins() {
+    const pluginsEnabled = Path.join(this.path, "plugins");
+    await fsp.mkdir(pluginsEnabled, { recursive: true });
+    const enabled = await fsp.readdir(pluginsEnabled);
+
+    // The plugins directory also contains the data folders of each plugin
+    return enabled.filter(f => f.endsWith(".jar"));
+  }
+
+  public async listPlugins() {
+    return {
+      available: await this.listAvailablePlugins(),
+      enabled: await this.listEnabledPlugins()
+    };
+  }
+
+  public async enablePlugins(...plugins: string[]) {
+    const pluginsAvailable = Path.join(this.path, "pluginsavailable");
+    const pluginsEnabled = Path.join(this.path, "plugins");
+    await fsp.mkdir(pluginsAvailable, { recursive: true });
+    await fsp.mkdir(pluginsEnabled, { recursive: true });
+    for (const plugin of plugins) {
+      if (!await fsp.stat(Path.join(pluginsAvailable, plugin)).then(() => true).catch(() => false)) {
+        throw new Error(`Plugin ${plugin} not found in pluginsavailable directory`);
+      }
+      await fsp.rename(Path.join(pluginsAvailable, plugin), Path.join(pluginsEnabled, plugin));
+    }
+  }
+
+  public async disablePlugins(...plugins: string[]) {
+    const pluginsAvailable = Path.join(this.path, "pluginsavailable");
+    const pluginsEnabled = Path.join(this.path, "plugins");
+    await fsp.mkdir(pluginsAvailable, { recursive: true });
+    await fsp.mkdir(pluginsEnabled, { recursive: true });
+    for (const plugin of plugins) {
+      if (!await fsp.stat(Path.join(pluginsEnabled, plugin)).then(() => true).catch(() => false)) {
+        throw new Error(`Plugin ${plugin} not found in plugins directory`);
+      }
+      await fsp.rename(Path.join(pluginsEnabled, plugin), Path.join(pluginsAvailable, plugin));
+    }
+  }
+
+  /**
+   * Read the plugin.yml of a plugin jar. Looks in `plugins` first and `pluginsavailable` second.
+   * Falls back to paper-plugin.yml for plugins that only ship that.
+   * @param plugin File name of the plugin jar.
+   */
+  public async getPluginInfo(plugin: string): Promise<PaperServer.PluginInfo> {
+    let jarPath = Path.join(this.path, "plugins", plugin);
+    if (!await fsp.stat(jarPath).then(() => true).catch(() => false)) {
+      jarPath = Path.join(this.path, "pluginsavailable", plugin);
+    }
+
+    const yml = await ZipArchive.use(jarPath, async zip => {
+      return await zip.readText("plugin.yml") ?? await zip.readText("paper-plugin.yml");
+    });
+    if (yml === undefined) {
+      throw new Error(`No plugin.yml found in ${plugin}`);
+    }
+
+    const data = PaperServer.parsePluginYml(yml);
+    const list = (value: string | string[] | undefined) => value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const str = (value: string | string[] | undefined) => Array.isArray(value) ? value.join(", ") : value;
+    return {
+      file: plugin,
+      name: str(data["name"]) ?? plugin,
+      version: str(data["version"]) ?? "",
+      main: str(data["main"]),
+      description: str(data["description"]),
+      apiVersion: str(data["api-version"]),
+      authors: [...list(data["author"]), ...list(data["authors"])],
+      depend: list(data["depend"]),
+      softDepend: list(data["softdepend"]),
+      loadBefore: list(data["loadbefore"])
+    };
+  }
+
+  /**
+   * Read the plugin.yml of every enabled and available plugin.
+   */
+  public async getPluginInfos() {
+    const { available, enabled } = await this.listPlugins();
+    return {
+      available: await Promise.all(available.map(p => this.getPluginInfo(p))),
+      enabled: await Promise.all(enabled.map(p => this.getPluginInfo(p)))
+    };
+  }
+
+  /**
+   * Parses the top level scalars and lists of a plugin.yml file. Nested sections such as `commands` are skipped.
+   */
+  public static parsePluginYml(data: string): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+    const unquote = (value: string) => {
+      value = value.trim();
+      if ((value.startsWith("\"") && value.endsWith("\"")) || (value.startsWith("'") && value.endsWith("'"))) {
+        return value.slice(1, -1);
+      }
+      return value;
+    };
+
+    let listKey: string | null = null;
+    for (const rawLine of data.split(/\r?\n/)) {
+      const line = PaperServer.stripYamlComment(rawLine);
+      if (!line.trim() || line.trim().startsWith("#")) continue;
+
+      const item = line.match(/^\s*-\s*(.*)$/);
+      if (item && listKey) {
+        (result[listKey] as string[]).push(unquote(item[1]));
+        continue;
+      }
+      listKey = null;
+      if (/^\s/.test(line)) continue; // Nested section
+
+      const match = line.match(/^([\w.-]+)\s*:\s*(.*)$/);
+      if (!match) continue;
+      const [, key, value] = match;
+      if (value === "") {
+        result[key] = [];
+        listKey = key;
+      }
+      else if (value.startsWith("[") && value.endsWith("]")) {
+        result[key] = value.slice(1, -1).split(",").map(unquote).filter(Boolean);
+      }
+      else {
+        result[key] = unquote(value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove the comment from a line of YAML. A `#` only starts a comment outside quotes, at the start of the line or after whitespace.
+   */
+  private static stripYamlComment(line: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        // Double quoted strings escape with a backslash, single quoted strings with a doubled quote
+        if (char === "\\" && quote === "\"") i++;
+        else if (char === "'" && quote === "'" && line[i + 1] === "'") i++;
+        else if (char === quote) quote = null;
+      }
+      else if ((char === "\"" || char === "'") && (i === 0 || /[\s:,[{-]/.test(line[i - 1]))) {
+        // Quotes inside a plain value, like in `Don't`, don't start a string
+        quote = char;
+      }
+      else if (char === "#" && (i === 0 || /\s/.test(line[i - 1]))) {
+        return line.slice(0, i).trimEnd();
+      }
+    }
+    return line;
+  }
+}
+
+export namespace PaperServer {
+  export interface PluginInfo {
+    /**
+     * File name of the plugin jar.
+     */
+    file: string;
+    name: string;
+    version: string;
+    main?: string;
+    description?: string;
+    apiVersion?: string;
+    authors: string[];
+    /**
+     * Plugins that are required for this plugin to load.
+     */
+    depend: string[];
+    /**
+     * Plugins that are used if present.
+     */
+    softDepend: string[];
+    loadBefore: string[];
+  }
+}
+
+export default PaperServer;
@@ -0,0 +1,476 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import crypto from "node:crypto";
+import Server from "./Server";
+import Cron from "../Cron";
+import Backup from "../Backup";
+
+/**
+ * Runs jobs on a server on a cron schedule or at an interval, such as nightly restarts with a countdown.
+ * Jobs are saved to a JSON file in the server directory, so they survive restarts of the process.
+ *
+ * Events are emitted on the server: `job-complete` after a job ran, `job-skipped` when a condition wasn't met and `job-failed` when the action threw.
+ * Runs that were missed while the scheduler wasn't enabled are not caught up on.
+ */
+export class Scheduler {
+  public options: Scheduler.ResolvedOptions;
+
+  private jobs = new Map<string, Scheduler.Job>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  /**
+   * Jobs that are currently running, such as a restart during its countdown.
+   */
+  private running = new Map<string, AbortController>();
+  private enabled = false;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(public readonly server: Server, opts?: Scheduler.Options) {
+    this.options = {
+      path: Path.join(server.path, "ionmc-schedule.json"),
+      ...opts
+    };
+  }
+
+  /**
+   * Read the saved jobs, replacing the ones in memory. A missing file means there are no jobs.
+   * @throws Error if the file can't be read or isn't valid JSON. The jobs in memory are kept, so they don't overwrite the file on the next save.
+   */
+  public async load(): Promise<Scheduler.Job[]> {
+    const path = this.options.path;
+    let jobs: Scheduler.Job[] = [];
+    if (path) {
+      const data = await fsp.readFile(path, "utf-8").catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return null;
+        throw error;
+      });
+      if (data !== null) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data);
+        }
+        catch (error: unknown) {
+          throw new Error(`Invalid schedule file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!Array.isArray(parsed)) throw new Error(`Invalid schedule file ${path}, expected a list of jobs.`);
+        jobs = parsed;
+      }
+    }
+
+    for (const id of this.jobs.keys()) this.disarm(id);
+    this.jobs = new Map(jobs.map(job => [job.id, job]));
+    if (this.enabled) {
+      for (const id of this.jobs.keys()) this.arm(id);
+    }
+    return this.list();
+  }
+
+  /**
+   * Write the jobs to disk. Does nothing if `path` is null.
+   */
+  public save(): Promise<void> {
+    return this.saving = this.saving.catch(() => { }).then(async () => {
+      const path = this.options.path;
+      if (!path) return;
+      const tmp = `${path}.tmp`;
+      await fsp.writeFile(tmp, JSON.stringify(this.list(), null, 2));
+      await fsp.rename(tmp, path);
+    });
+  }
+
+  /**
+   * Start running jobs on their schedule.
+   */
+  public enable(): this {
+    if (!this.enabled) {
+      this.enabled = true;
+      for (const id of this.jobs.keys()) this.arm(id);
+    }
+    return this;
+  }
+
+  /**
+   * Stop running jobs and cancel the ones in progress. The jobs themselves are kept.
+   */
+  public disable(): this {
+    this.enabled = false;
+    for (const id of this.jobs.keys()) this.disarm(id);
+    for (const controller of this.running.values()) controller.abort();
+    return this;
+  }
+
+  public isEnabled() {
+    return this.enabled;
+  }
+
+  /**
+   * Add a job and save it.
+   * @throws Error if the schedule, action or a condition is invalid.
+   */
+  public async add(opts: Scheduler.JobOptions): Promise<Scheduler.Job> {
+    Scheduler.validate(opts);
+    const job: Scheduler.Job = {
+      ...opts,
+      id: opts.id ?? crypto.randomUUID(),
+      created: new Date().toISOString(),
+    };
+    if (this.jobs.has(job.id)) {
+      throw new Error(`A job with id ${job.id} already exists.`);
+    }
+
+    this.jobs.set(job.id, job);
+    if (this.enabled) this.arm(job.id);
+    await this.save();
+    return job;
+  }
+
+  /**
+   * Remove a job and save the change. A run in progress, such as a restart countdown, is canceled.
+   * @returns Whether the job existed.
+   */
+  public async cancel(id: string): Promise<boolean> {
+    if (!this.jobs.has(id)) return false;
+    this.disarm(id);
+    this.running.get(id)?.abort();
+    this.jobs.delete(id);
+    await this.save();
+    return true;
+  }
+
+  public get(id: string): Scheduler.Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * All jobs, in the order they were added.
+   */
+  public list(): Scheduler.Job[] {
+    return [...this.jobs.values()];
+  }
+
+  /**
+   * Whether a job is running right now.
+   */
+  public isRunning(id: string) {
+    return this.running.has(id);
+  }
+
+  /**
+   * Get the next time a job runs.
+   * @returns The time, or null if the job doesn't exist or its cron expression never matches.
+   */
+  public getNextRun(id: string, from: Date = new Date()): Date | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (job.cron !== undefined) return Cron.next(job.cron, from);
+
+    // Intervals count from the last run, skipping any that were missed
+    const interval = job.interval!;
+    const start = new Date(job.lastRun ?? job.created).getTime();
+    const elapsed = Math.max(0, from.getTime() - start);
+    return new Date(start + (Math.floor(elapsed / interval) + 1) * interval);
+  }
+
+  /**
+   * Run a job now, outside of its schedule. Conditions are checked unless `force` is set.
+   * @returns How the run ended.
+   * @throws Error if the job doesn't exist.
+   */
+  public async run(id: string, force = false): Promise<Scheduler.RunResult> {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`No job with id ${id}.`);
+    if (this.running.has(id)) {
+      this.server.emit("job-skipped", job, "already-running");
+      return "skipped";
+    }
+
+    if (!force) {
+      for (const name of job.when ?? []) {
+        const condition = Scheduler.conditions[name];
+        if (!condition || !await condition(this.server)) {
+          this.server.emit("job-skipped", job, name);
+          return "skipped";
+        }
+      }
+    }
+
+    const controller = new AbortController();
+    this.running.set(id, controller);
+    try {
+      // A failed save must not leave the job marked as running
+      job.lastRun = new Date().toISOString();
+      await this.save();
+
+      const handler = Scheduler.actions[job.action.type];
+      if (!handler) throw new Error(`Unknown job action ${job.action.type}.`);
+      await handler(this.server, job.action, {
+        job,
+        signal: controller.signal,
+        sleep: (ms) => sleep(ms, controller.signal),
+      });
+      this.server.emit("job-complete", job);
+      return "completed";
+    }
+    catch (error) {
+      if (controller.signal.aborted) return "canceled";
+      this.server.emit("job-failed", job, error as Error);
+      return "failed";
+    }
+    finally {
+      this.running.delete(id);
+    }
+  }
+
+  private arm(id: string, from?: Date) {
+    this.disarm(id);
+    const next = this.getNextRun(id, from);
+    if (!next) return;
+
+    // Timers can't wait longer than about 24.8 days, so long waits are split up
+    const delay = next.getTime() - Date.now();
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      if (!this.enabled || !this.jobs.has(id)) return;
+      if (delay > maxTimeout) return this.arm(id);
+
+      this.run(id).catch((error) => {
+        // Without a listener, emitting "error" would throw
+        if (this.server.listenerCount("error") > 0) this.server.emit("error", error);
+      });
+      // Timers may fire a little early, which must not count as the next run being due
+      this.arm(id, new Date(Math.max(Date.now(), next.getTime())));
+    }, Math.max(0, Math.min(delay, maxTimeout)));
+    this.timers.set(id, timer);
+  }
+
+  private disarm(id: string) {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  /**
+   * Check that a job has exactly one valid schedule, a known action and known conditions.
+   * @throws Error if it doesn't.
+   */
+  public static validate(job: Scheduler.JobOptions) {
+    if ((job.cron === undefined) === (job.interval === undefined)) {
+      throw new Error("A job needs either a cron expression or an interval.");
+    }
+    if (job.cron !== undefined) Cron.parse(job.cron);
+    if (job.interval !== undefined && !(job.interval > 0)) {
+      throw new Error(`Invalid interval ${job.interval}, it must be a positive number of milliseconds.`);
+    }
+    if (!Scheduler.actions[job.action?.type]) {
+      throw new Error(`Unknown job action ${job.action?.type}.`);
+    }
+    for (const name of job.when ?? []) {
+      if (!Scheduler.conditions[name]) throw new Error(`Unknown job condition ${name}.`);
+    }
+  }
+
+  /**
+   * Format a number of seconds for a countdown message, such as `10 minutes` or `1 second`.
+   */
+  public static formatDuration(seconds: number): string {
+    const [value, unit] = seconds >= 3600 && seconds % 3600 === 0 ? [seconds / 3600, "hour"]
+      : seconds >= 60 && seconds % 60 === 0 ? [seconds / 60, "minute"]
+      : [seconds, "second"];
+    return `${value} ${unit}${value === 1 ? "" : "s"}`;
+  }
+}
+
+const maxTimeout = 2 ** 31 - 1;
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new Error("Job canceled."));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Job canceled."));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export namespace Scheduler {
+  export interface Options {
+    /**
+     * File the jobs are saved to. Jobs are only kept in memory if null. Default is `ionmc-schedule.json` in the server directory.
+     */
+    path?: string | null;
+  }
+
+  export type ResolvedOptions = Required<Options>;
+
+  export interface JobOptions {
+    /**
+     * Id of the job. Default is a random UUID.
+     */
+    id?: string;
+    /**
+     * Name to show for the job.
+     */
+    name?: string;
+    /**
+     * Cron expression of when to run, such as `0 4 * * *` for 4 AM every day. See `Cron.parse`.
+     */
+    cron?: string;
+    /**
+     * Milliseconds between runs, counted from the last run or from when the job was added.
+     */
+    interval?: number;
+    action: Action;
+    /**
+     * Names of conditions in `Scheduler.conditions` that all must be met for a run to happen. Runs are skipped otherwise.
+     */
+    when?: string[];
+  }
+
+  export interface Job extends JobOptions {
+    id: string;
+    /**
+     * ISO time the job was added.
+     */
+    created: string;
+    /**
+     * ISO time the job last started running.
+     */
+    lastRun?: string;
+  }
+
+  export type RunResult = "completed" | "skipped" | "failed" | "canceled";
+
+  /**
+   * Broadcast a countdown with `say`, then restart the server. Does nothing if the server isn't running.
+   * The restart happens the largest warning after the job runs.
+   */
+  export interface RestartAction {
+    type: "restart";
+    /**
+     * Seconds before the restart to broadcast a warning at. Default is 10 minutes, 5 minutes, 1 minute and 10 seconds.
+     */
+    warnings?: number[];
+    /**
+     * Warning message. `{time}` is replaced with the time left, such as `5 minutes`. Default is `Server restarting in {time}.`
+     */
+    message?: string;
+  }
+
+  /**
+   * Run commands on the server, in order, with `Server.execute`. Does nothing if the server isn't running.
+   */
+  export interface CommandsAction {
+    type: "commands";
+    commands: string[];
+    /**
+     * Milliseconds to wait between commands. Default is 0.
+     */
+    delay?: number;
+  }
+
+  /**
+   * Take a backup of the world. See `Server.backup`.
+   */
+  export interface BackupAction {
+    type: "backup";
+    label?: string;
+    retention?: Backup.RetentionPolicy;
+  }
+
+  export interface StartAction {
+    type: "start";
+  }
+
+  export interface StopAction {
+    type: "stop";
+  }
+
+  /**
+   * Actions of handlers added to `Scheduler.actions` can have any other shape.
+   */
+  export interface CustomAction {
+    type: string;
+    [key: string]: unknown;
+  }
+
+  export type Action = RestartAction | CommandsAction | BackupAction | StartAction | StopAction | CustomAction;
+
+  export interface Context {
+    job: Job;
+    /**
+     * Aborted when the job is canceled or the scheduler is disabled.
+     */
+    signal: AbortSignal;
+    /**
+     * Wait for a number of milliseconds. Rejects when the job is canceled.
+     */
+    sleep(ms: number): Promise<void>;
+  }
+
+  export type ActionHandler<A extends Action = Action> = (server: Server, action: A, context: Context) => Promise<void>;
+  export type Condition = (server: Server) => boolean | Promise<boolean>;
+
+  export const defaultWarnings = [600, 300, 60, 10];
+
+  /**
+   * Type a handler for one shape of action, so it can be added to `Scheduler.actions`. Handlers are only called for actions of the type they're registered as.
+   */
+  export function defineAction<A extends Action>(handler: ActionHandler<A>): ActionHandler {
+    return handler as ActionHandler;
+  }
+
+  /**
+   * Built-in actions, by type. Add to this to register your own, using `defineAction` for a typed action.
+   */
+  export const actions: Record<string, ActionHandler> = {
+    restart: defineAction<RestartAction>(async (server, action, { sleep }) => {
+      if (!server.isRunning()) return;
+      const warnings = [...new Set(action.warnings ?? defaultWarnings)].sort((a, b) => b - a);
+      const message = action.message ?? "Server restarting in {time}.";
+
+      let left = warnings[0] ?? 0;
+      for (const warning of warnings) {
+        await sleep((left - warning) * 1000);
+        left = warning;
+        if (!server.isRunning()) return;
+        server.writeLine(`say ${message.replace(/\{time\}/g, Scheduler.formatDuration(warning))}`);
+      }
+      await sleep(left * 1000);
+      if (server.isRunning()) await server.restart();
+    }),
+    commands: defineAction<CommandsAction>(async (server, action, { sleep }) => {
+      for (let i = 0; i < action.commands.length; i++) {
+        if (!server.isRunning()) return;
+        if (i > 0 && action.delay) await sleep(action.delay);
+        await server.execute(action.commands[i]);
+      }
+    }),
+    backup: defineAction<BackupAction>(async (server, action) => {
+      await server.backup({ label: action.label, retention: action.retention });
+    }),
+    start: async (server) => {
+      if (!server.isRunning()) await server.start();
+    },
+    stop: async (server) => {
+      if (server.isRunning()) await server.stop();
+    },
+  };
+
+  /**
+   * Built-in conditions, by name. Add to this to register your own.
+   */
+  export const conditions: Record<string, Condition> = {
+    "no-players": (server) => server.players.size === 0,
+    "players-online": (server) => server.players.size > 0,
+    "running": (server) => server.isRunning(),
+    "offline": (server) => !server.isRunning(),
+  };
+}
+
+export default Scheduler;
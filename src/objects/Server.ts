@@ -5,11 +5,22 @@ import Path from "node:path";
 import * as pty from "node-pty";
 import EventEmitter from "node:events";
 import rl from "node:readline";
+import net from "node:net";
 import RCON from "../Rcon";
+import ServerListPing from "../ServerListPing";
+import Query from "../Query";
+import { PropertiesDocument, ServerProperties } from "../Properties";
+import Backup from "../Backup";
+import CrashReport from "../CrashReport";
+import PlayerLists from "../PlayerLists";
+import PlayerIdentity from "../PlayerIdentity";
+import Downloader from "../Downloader";
+import Java from "../Java";
+import LaunchProfile from "../LaunchProfile";
+import LogStore from "../LogStore";
+import Supervisor from "./Supervisor";
+import Scheduler from "./Scheduler";
 import { escapeHTML, wait } from "../Utilities";
-import { Writable } from "node:stream";
-import http from "node:http";
-import url from "node:url";
 
 /**
  * Represents a minecraft server.
@@ -32,6 +43,7 @@ export class Server extends EventEmitter {
     super({ captureRejections: true });
     this.path = Path.resolve(path);
     this.jarFile = jarFile ?? this.getDefaultJarFile();
+    this.identity = new PlayerIdentity(this.path);
   }
 
   public async ensurePathExists() {
@@ -81,9 +93,14 @@ export class Server extends EventEmitter {
   }
 
   /**
-   * Path to the java executable.
+   * Path to the java executable. A compatible runtime is picked automatically when starting if not set.
    */
-  public javaPath: string = "java";
+  public javaPath?: string;
+
+  /**
+   * Runtime used for the last start. Set by `resolveJava`.
+   */
+  public java?: Java.Runtime;
 
   /**
    * Sets the path to the java executable.
@@ -121,63 +138,28 @@ export class Server extends EventEmitter {
    */
   public async installServer(opts?: Server.InstallOptions) {
     opts ??= {};
-    const versionData = await MinecraftApi.getServerData(this.version ?? "latest");
+    const versionData = await MinecraftApi.getServerData(this.version ?? "latest", opts.api);
     this.version = versionData.id;
 
-    opts.progressStream?.write(`Installing server ${versionData.downloads.server.url}`);
-
-    const downloadUrl = versionData.downloads.server.url;
-    const parsedUrl = url.parse(downloadUrl);
-
-    const options = {
-      hostname: parsedUrl.hostname,
-      port: parsedUrl.port,
-      path: parsedUrl.path,
-      method: "GET"
-    };
-
-    const stream = fs.createWriteStream(this.getServerJarPath());
-
-    const req = http.request(options, (res) => {
-      if (res.statusCode !== 200) {
-        throw new Error(`Failed to download server jar: ${res.statusMessage}`);
-      }
-
-      const total = parseInt(res.headers["content-length"] || "0", 10);
-      let downloaded = 0;
-
-      res.on("data", (chunk) => {
-        downloaded += chunk.length;
-        // const percentComplete = (downloaded / total) * 100;
-        // opts.progressStream?.write(`Download progress: ${percentComplete.toFixed(2)}%`);
-        opts.progressStream?.write(`Progress: ${downloaded}/${total}`);
-        stream.write(chunk);
-      });
-
-      res.on("end", () => {
-        stream.end();
-      });
-    });
-
-    req.on("error", (err) => {
-      throw new Error(`Network error while downloading server jar: ${err.message}`);
-    });
-
-    req.end();
-
-    return new Promise<void>((resolve, reject) => {
-      stream.on("finish", () => {
-        resolve();
-      });
-      stream.on("error", (err) => {
-        reject(err);
-      });
-    });
+    const { url, sha1, size } = versionData.downloads.server;
+    const downloader = opts.downloader ?? new Downloader();
+    await this.ensurePathExists();
+    await downloader.download(url, this.getServerJarPath(), { sha1, size });
   }
 
+  /**
+   * The loaded server.properties file. Comments, ordering and formatting are kept when saving. Undefined if no file was loaded.
+   */
+  public propertiesDocument?: PropertiesDocument;
+
   public properties: Record<string, string | number | boolean> = {};
 
+  /**
+   * Set a property. Known vanilla properties are validated against `ServerProperties.schema`.
+   * @throws Error if the value is invalid for the property or the property doesn't exist in the server's version.
+   */
   public setProperty(key: string, value: string | number | boolean): this {
+    ServerProperties.validate(key, value, this.version);
     this.properties[key] = value;
     return this;
   }
@@ -186,43 +168,49 @@ export class Server extends EventEmitter {
     return this.properties[key] as T;
   }
 
+  /**
+   * Save the properties to the server.properties file. Only changed values are rewritten, everything else is kept as it was loaded.
+   */
   public async saveProperties() {
-    const stream = fs.createWriteStream(this.getServerPropertiesPath());
-
-    stream.write("# Minecraft server properties\n");
-    stream.write("# EDITED BY IONMC\n");
-    stream.write("# (File modification datestamp)\n");
-    stream.write(`# ${new Date().toISOString()}\n`);
-    stream.write("# \n");
+    let doc = this.propertiesDocument;
+    if (!doc) {
+      doc = PropertiesDocument.parse("");
+      doc.addComment("Minecraft server properties");
+      doc.addComment("EDITED BY IONMC");
+      doc.addComment(new Date().toISOString());
+    }
 
     for (const key in this.properties) {
-      stream.write(`${key}=${this.properties[key]}\n`);
+      const value = this.properties[key];
+      const current = doc.get(key);
+      // Compare typed values so equal values keep their original formatting
+      if (current === undefined || ServerProperties.parseValue(key, current) !== value) {
+        doc.set(key, ServerProperties.stringifyValue(value));
+      }
+    }
+    for (const key of doc.keys()) {
+      // Empty values aren't part of `properties`, so only remove keys that were deleted from it
+      if (!(key in this.properties) && ServerProperties.parseValue(key, doc.get(key)!) !== undefined) {
+        doc.delete(key);
+      }
     }
 
-    stream.end();
-
-    return new Promise<void>((resolve, reject) => {
-      stream.on("finish", () => {
-        resolve();
-      });
-      stream.on("error", (err) => {
-        reject(err);
-      });
-    });
+    this.propertiesDocument = doc;
+    await fsp.writeFile(this.getServerPropertiesPath(), doc.toString());
   }
 
+  /**
+   * Parse the contents of a server.properties file to typed values. Empty boolean and integer values are left out.
+   */
   public static async parseProperties(data: string) {
+    return Server.propertiesToRecord(PropertiesDocument.parse(data));
+  }
+
+  private static propertiesToRecord(doc: PropertiesDocument) {
     const properties: Record<string, string | number | boolean> = {};
-    const lines = data.split("\n");
-    for (const line of lines) {
-      const [key, value] = line.split("=");
-      if (value === "true" || value === "false") { // Boolean
-        properties[key] = value === "true";
-      }
-      else if (!isNaN(parseInt(value))) { // Number
-        properties[key] = parseInt(value);
-      }
-      else { // String
+    for (const [key, raw] of Object.entries(doc.toRecord())) {
+      const value = ServerProperties.parseValue(key, raw);
+      if (value !== undefined) {
         properties[key] = value;
       }
     }
@@ -233,33 +221,154 @@ export class Server extends EventEmitter {
     const spPath = this.getServerPropertiesPath();
     if (await fsp.stat(spPath).then(() => true).catch(() => false)) {
       const data = await fsp.readFile(spPath, "utf-8");
-      this.properties = await Server.parseProperties(data);
+      this.propertiesDocument = PropertiesDocument.parse(data);
+      this.properties = Server.propertiesToRecord(this.propertiesDocument);
     }
     else {
+      this.propertiesDocument = undefined;
       this.properties = {};
       console.error("Server properties file not found.");
     }
   }
 
   public ptyProcess?: pty.IPty;
-  public stdout: Server.ParsedData[] = [];
+
+  /**
+   * Console output of the server. Keeps the last 1000 lines in memory by default, replace it with a store that has a directory to keep the history on disk.
+   */
+  public logStore: LogStore = new LogStore();
+
+  public setLogStore(store: LogStore): this {
+    this.logStore = store;
+    return this;
+  }
+
+  /**
+   * Recent console output of the server, from the ring buffer of `logStore`.
+   */
+  public get stdout(): Server.ParsedData[] {
+    return this.logStore.getRecent();
+  }
+
+  /**
+   * Read `logs/latest.log` and the gzipped log archives of the server in the format of `logStore`.
+   */
+  public async readLogFiles(): Promise<LogStore.Entry[]> {
+    return await LogStore.readServerLogs(this.path, data => this._static.parseData(data));
+  }
+
+  /**
+   * Import `logs/latest.log` and the gzipped log archives of the server into `logStore`. The store must have a directory.
+   */
+  public async importLogFiles() {
+    await this.logStore.import(await this.readLogFiles());
+  }
   // public stderr = new WriteStream(0);
 
   /**
-   * Start the server. This will start the server process based on the settings it was given and attach events to it.
+   * Get the Java major version required by the server's Minecraft version.
+   * Read from the version JSON, and estimated from the version number if it can't be fetched.
+   * @returns The major version, or undefined if it couldn't be determined.
+   */
+  public async getRequiredJavaVersion(): Promise<number | undefined> {
+    return await MinecraftApi.getServerData(this.version ?? "latest")
+      .then(data => Java.getRequiredVersion(data))
+      .catch(() => this.version ? Java.estimateRequiredVersion(this.version) : undefined);
+  }
+
+  /**
+   * Determine the Java runtime to run the server with and store it in `java`.
+   * Checks `javaPath` if it's set, otherwise picks a compatible runtime from `Java.discover()`.
+   * @throws Error if `javaPath` isn't a working runtime, is too old for the Minecraft version, or no compatible runtime is installed.
+   */
+  public async resolveJava(): Promise<Java.Runtime> {
+    const required = await this.getRequiredJavaVersion();
+    const version = this.version ?? "latest";
+
+    if (this.javaPath) {
+      const runtime = await Java.inspect(this.javaPath);
+      if (!runtime) {
+        throw new Error(`${this.javaPath} is not a working Java runtime. Set javaPath to a java executable, or unset it to pick one automatically.`);
+      }
+      if (required !== undefined && runtime.majorVersion < required) {
+        throw new Error(`Minecraft ${version} requires Java ${required} or newer, but ${this.javaPath} is Java ${runtime.majorVersion}.`);
+      }
+      return this.java = runtime;
+    }
+
+    const runtime = await Java.findRuntime(required);
+    if (!runtime) {
+      throw new Error(`No Java runtime${required !== undefined ? ` ${required} or newer` : ""} found for Minecraft ${version}. Install one or set javaPath.`);
+    }
+    return this.java = runtime;
+  }
+
+  /**
+   * JVM flags, system properties, server arguments, environment and working directory used when starting the server.
+   */
+  public launchProfile: LaunchProfile = {};
+
+  public setLaunchProfile(profile: LaunchProfile): this {
+    this.launchProfile = profile;
+    return this;
+  }
+
+  /**
+   * Command line of the last start. Undefined if the server hasn't been started.
+   */
+  public commandLine?: Server.CommandLine;
+
+  /**
+   * Get the command line the server would be started with. Resolves the Java runtime first.
+   * @throws Error if no compatible Java runtime is found. See `resolveJava`.
+   */
+  public async getCommandLine(): Promise<Server.CommandLine> {
+    const java = await this.resolveJava();
+    return await this.buildCommandLine(java);
+  }
+
+  /**
+   * Render the launch profile into a command line for a Java runtime.
+   *
+   * Classes that extend this class should override this function if the server isn't started with `-jar`.
+   */
+  protected async buildCommandLine(java: Java.Runtime): Promise<Server.CommandLine> {
+    const profile = this.launchProfile;
+    return {
+      command: java.path,
+      args: [
+        ...LaunchProfile.renderJvmArgs(profile, this.memory),
+        "-jar",
+        this.getServerJarPath(),
+        "--nogui",
+        ...profile.serverArgs ?? []
+      ],
+      cwd: Path.resolve(this.path, profile.cwd ?? "."),
+      env: LaunchProfile.renderEnv(profile)
+    };
+  }
+
+  /**
+   * Format a command line as a single string that can be pasted into a shell.
+   */
+  public static formatCommandLine(commandLine: Server.CommandLine): string {
+    const quote = (arg: string) => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    return [commandLine.command, ...commandLine.args].map(quote).join(" ");
+  }
+
+  /**
+   * Start the server.
+   * @throws Error if no compatible Java runtime is found. See `resolveJava`.
    */
   public async start() {
+    const commandLine = await this.getCommandLine();
+    this.commandLine = commandLine;
+
     // Start the server
-    this.ptyProcess = pty.spawn(this.javaPath, [
-      `-Xms${this.memory[0]}M`,
-      `-Xmx${this.memory[1]}M`,
-      "-jar",
-      this.getServerJarPath(),
-      "--nogui"
-    ], {
+    this.ptyProcess = pty.spawn(commandLine.command, commandLine.args, {
       name: "xterm-color",
-      cwd: this.path,
-      env: process.env,
+      cwd: commandLine.cwd,
+      env: commandLine.env,
     });
 
     this.attachPtyEvents(this.ptyProcess);
@@ -279,6 +388,11 @@ export class Server extends EventEmitter {
    */
   protected attachPtyEvents(ptyProcess: pty.IPty) {
     let partial = "";
+    const startedAt = new Date();
+    let outOfMemory = false;
+    this.logStore.startSession();
+    this.stopRequested = false;
+    this.killRequested = false;
     ptyProcess.onData((data) => {
       // data = data.replace(/\r/g, "");
       // console.log("RAW:", JSON.stringify(data));
@@ -294,17 +408,110 @@ export class Server extends EventEmitter {
       // Example:
       // Done (25.931s)! For help, type "help"
       const parsed = this._static.parseData(data);
+      if (parsed.message.includes("java.lang.OutOfMemoryError")) {
+        outOfMemory = true;
+      }
       this.checkEvents(parsed);
-      this.stdout.push(parsed);
+      this.logStore.append(parsed);
       this.emit("data", parsed);
     });
 
-    ptyProcess.onExit((code) => {
+    ptyProcess.onExit(async ({ exitCode, signal }) => {
       this.ready = false;
-      this.emit("exit", code.exitCode);
+      this.players.clear();
+      this.playerUuids.clear();
+      if (this.ptyProcess === ptyProcess) {
+        this.ptyProcess = undefined;
+      }
+
+      const crashReport = await CrashReport.findLatest(this.path, startedAt).catch(() => null);
+      let reason: Server.ExitReason;
+      if (outOfMemory) reason = "oom";
+      else if (this.killRequested || signal || exitCode === 137 || exitCode === 143) reason = "killed";
+      // Some servers exit with an error code while shutting down, which isn't a crash when the stop was asked for
+      else if (this.stopRequested) reason = "clean";
+      else if (crashReport || exitCode !== 0) reason = "crash";
+      else reason = "clean";
+
+      const info: Server.ExitInfo = {
+        code: exitCode,
+        signal: signal || undefined,
+        reason,
+        requested: this.stopRequested || this.killRequested,
+        crashReport: crashReport ?? undefined,
+        startedAt,
+        exitedAt: new Date()
+      };
+      this.lastExit = info;
+
+      if (crashReport) {
+        this.emit("crash", crashReport);
+      }
+      this.emit("exit", exitCode, info);
     });
   }
 
+  /**
+   * Set when `stop()` is called, so a requested shutdown can be told apart from a crash.
+   */
+  protected stopRequested = false;
+  protected killRequested = false;
+
+  /**
+   * Information about the last time the server process exited.
+   */
+  public lastExit?: Server.ExitInfo;
+
+  /**
+   * Supervisor restarting this server after crashes. Undefined unless `supervise` was called.
+   */
+  public supervisor?: Supervisor;
+
+  /**
+   * Restart the server automatically when it crashes, with exponential backoff.  
+   * After too many restarts within the window, the `gave-up` event is emitted and the supervisor is disabled.
+   * @param opts Options for the supervisor. Calling this again replaces the previous options.
+   */
+  public supervise(opts?: Supervisor.Options): Supervisor {
+    this.supervisor?.disable();
+    this.supervisor = new Supervisor(this, opts).enable();
+    return this.supervisor;
+  }
+
+  /**
+   * Stop supervising the server.
+   */
+  public unsupervise() {
+    this.supervisor?.disable();
+    this.supervisor = undefined;
+  }
+
+  /**
+   * Scheduler running jobs on this server. Undefined unless `enableScheduler` was called.
+   */
+  public scheduler?: Scheduler;
+
+  /**
+   * Load the saved jobs of the server and start running them on their schedule.
+   * @param opts Options for the scheduler. Calling this again replaces the previous scheduler.
+   * @throws Error if the saved jobs can't be read. The previous scheduler keeps running in that case.
+   */
+  public async enableScheduler(opts?: Scheduler.Options): Promise<Scheduler> {
+    const scheduler = new Scheduler(this, opts);
+    await scheduler.load();
+    this.scheduler?.disable();
+    this.scheduler = scheduler;
+    return scheduler.enable();
+  }
+
+  /**
+   * Stop running scheduled jobs. The saved jobs are kept.
+   */
+  public disableScheduler() {
+    this.scheduler?.disable();
+    this.scheduler = undefined;
+  }
+
   /**
    * Check for events in the server data and execute the corresponding event.
    */
@@ -314,25 +521,119 @@ export class Server extends EventEmitter {
     }
 
     const msg = data.message;
+    const name = Server.playerNamePattern;
     let result: RegExpMatchArray | null;
 
-    if (result = msg.match(/(.*?) joined the game/)) {
-      this.players.add(result[1]);
-      this.emit("join", result[1]);
+    if (result = msg.match(/Done \(\d+\.\d+s\)! For help, type "help"/)) {
+      this.ready = true;
+      this.emit("ready", msg);
+      return;
+    }
+
+    if ((data.thread === "main" || data.thread === "ServerMain") && msg.match(/eula\.txt/)) {
+      this.emit("eula", "EULA not accepted. Please set `eula=true` in eula.txt.");
+      return;
+    }
+
+    if (data.thread === "Server thread" && data.type === "WARN" && (result = msg.match(/^Can't keep up!.*?Running (\d+)ms (?:or (\d+) ticks )?behind(?:, skipping (\d+) tick\(s\))?/))) {
+      const behindMs = parseInt(result[1]);
+      this.emit("lag", {
+        behindMs,
+        ticks: parseInt(result[2] ?? result[3] ?? `${Math.floor(behindMs / 50)}`),
+        message: msg
+      });
+      return;
+    }
+
+    // Chat is logged on the server thread since 1.19, and on the async chat threads of Bukkit based servers before that
+    const chatThread = data.thread === "Server thread" || !!data.thread?.startsWith("Async Chat Thread");
+    if (chatThread && (result = msg.match(new RegExp(`^(?:\\[Not Secure\\] )?<(${name})> (.*)$`)))) {
+      this.emit("chat", { player: result[1], message: result[2] });
+      return;
     }
-    else if (result = msg.match(/(.*?) left the game/)) {
+
+    // Logged by the authenticator thread before the player joins, in both online and offline mode
+    if (data.thread?.startsWith("User Authenticator") && (result = msg.match(new RegExp(`^UUID of player (${name}) is ([0-9a-fA-F-]{32,36})$`)))) {
+      const uuid = PlayerIdentity.formatUuid(result[2]);
+      this.playerUuids.set(result[1], uuid);
+      if (this.isOnlineMode()) {
+        // Caching is best-effort, and without a listener emitting "error" would throw
+        this.identity.remember({ name: result[1], uuid }).catch((error: unknown) => {
+          if (this.listenerCount("error") > 0) this.emit("error", error instanceof Error ? error : new Error(String(error)));
+        });
+      }
+      return;
+    }
+
+    if (data.thread !== "Server thread" || (data.type && data.type !== "INFO")) return;
+
+    if (result = msg.match(new RegExp(`^(${name}) joined the game$`))) {
+      const uuid = this.getKnownUuid(result[1]);
+      this.players.set(result[1], uuid);
+      this.emit("join", result[1], uuid);
+    }
+    else if (result = msg.match(new RegExp(`^(${name}) left the game$`))) {
+      const uuid = this.players.get(result[1]) ?? this.getKnownUuid(result[1]);
       this.players.delete(result[1]);
-      this.emit("leave", result[1]);
+      this.emit("leave", result[1], uuid);
     }
-    else if (result = msg.match(/Done \(\d+\.\d+s\)! For help, type "help"/)) {
-      this.ready = true;
-      this.emit("ready", result[1]);
+    else if (result = msg.match(new RegExp(`^(${name})\\[/([^\\]]+):(\\d+)\\] logged in with entity id (\\d+) at \\((?:\\[(.+?)\\])?(-?[\\d.]+), (-?[\\d.]+), (-?[\\d.]+)\\)$`))) {
+      this.emit("login", {
+        player: result[1],
+        ip: result[2],
+        port: parseInt(result[3]),
+        entityId: parseInt(result[4]),
+        world: result[5],
+        position: { x: parseFloat(result[6]), y: parseFloat(result[7]), z: parseFloat(result[8]) }
+      });
     }
-    else if (data.type == "minecraft" && data.thread == "Main" && (result = msg.match(/eula.txt/))) {
-      this.emit("eula", "EULA not accepted. Please set `eula=true` in eula.txt.");
+    else if (result = msg.match(new RegExp(`^(${name}) has (made the advancement|completed the challenge|reached the goal|just earned the achievement) \\[(.+)\\]$`))) {
+      const kinds: Record<string, Server.Advancement["kind"]> = {
+        "made the advancement": "advancement",
+        "completed the challenge": "challenge",
+        "reached the goal": "goal",
+        "just earned the achievement": "achievement",
+      };
+      this.emit("advancement", { player: result[1], kind: kinds[result[2]], advancement: result[3] });
+    }
+    else if (result = msg.match(new RegExp(`^(${name}) issued server command: (/.*)$`))) {
+      this.emit("command", { player: result[1], command: result[2] });
+    }
+    else if (result = msg.match(new RegExp(`^\\[(${name}): (.*)\\]$`))) {
+      // Command feedback broadcast to the console when `log-admin-commands` is on
+      this.emit("command", { player: result[1], feedback: result[2] });
+    }
+    else if (result = msg.match(new RegExp(`^\\[(${name})\\] (.*)$`))) {
+      this.emit("say", { sender: result[1], message: result[2] });
+    }
+    else if (result = msg.match(new RegExp(`^\\* (${name}) (.*)$`))) {
+      this.emit("me", { sender: result[1], message: result[2] });
+    }
+    else {
+      const death = this.parseDeath(msg);
+      if (death) this.emit("death", death);
     }
   }
 
+  /**
+   * Parse a death message. Only messages about online players are considered, so other lines that happen to look like death messages are ignored.
+   */
+  private parseDeath(message: string): Server.Death | null {
+    const space = message.indexOf(" ");
+    if (space === -1) return null;
+    const player = message.slice(0, space);
+    if (!this.players.has(player)) return null;
+
+    const rest = message.slice(space + 1);
+    for (const [pattern, cause] of Server.deathMessages) {
+      const result = rest.match(pattern);
+      if (result) {
+        return { player, cause, killer: result[1], weapon: result[2], message };
+      }
+    }
+    return null;
+  }
+
   /**
    * Parses the data from the server.
    */
@@ -411,6 +712,7 @@ export class Server extends EventEmitter {
    * Stop the server. This will send the `stop` command to the server and is equivalent to `server.writeLine("stop")`.
    */
   public async stop() {
+    this.stopRequested = true;
     this.writeLine("stop");
     return new Promise<void>((resolve) => {
       this.once("exit", () => {
@@ -423,40 +725,250 @@ export class Server extends EventEmitter {
    * Kill the server process.
    */
   public kill() {
+    this.killRequested = true;
     this.ptyProcess?.kill();
   }
 
   /**
-   * List of players currently online on the server. Updated automatically when players join or leave the server.
+   * Players currently online on the server, mapped to their UUID. Updated automatically when players join or leave the server.  
+   * The UUID is undefined if it couldn't be determined.
+   */
+  public players: Map<string, string | undefined> = new Map();
+
+  /**
+   * UUIDs the server reported for players that logged in since it started.
+   */
+  private playerUuids: Map<string, string> = new Map();
+
+  /**
+   * Resolves player names to UUIDs. Online mode profiles are cached in `ionmc-profiles.json` in the server directory by default.
+   */
+  public identity: PlayerIdentity;
+
+  /**
+   * Whether the server runs in online mode, according to the `online-mode` property. Default is true.
+   */
+  public isOnlineMode() {
+    return this.properties["online-mode"] !== false;
+  }
+
+  /**
+   * Get the UUID of a player without any lookups, from what the server reported or what can be computed.
+   */
+  private getKnownUuid(name: string): string | undefined {
+    return this.playerUuids.get(name)
+      ?? (this.isOnlineMode() ? this.identity.getCached(name)?.uuid : PlayerIdentity.offlineUuid(name));
+  }
+
+  /**
+   * Resolve the profile of a player, using offline mode UUIDs if the `online-mode` property is off. Loads the properties if they aren't already.
+   * @throws Error if the player doesn't exist in online mode.
    */
-  public players: Set<string> = new Set();
+  public async resolvePlayer(name: string): Promise<PlayerIdentity.Profile> {
+    if (Object.keys(this.properties).length === 0) {
+      await this.loadProperties();
+    }
+    const uuid = this.playerUuids.get(name);
+    if (uuid) return { name, uuid };
+    return await this.identity.resolve(name, this.isOnlineMode());
+  }
   
+  private commandQueue: Promise<unknown> = Promise.resolve();
+
   /**
-   * Get a list of players currently online on the server. It checks using the `list` command.  
-   * It will update the `players` property of the server.
-   * @returns A promise that resolves with an array of player names.
+   * Run a command and collect its response. It is sent through RCON if it's connected and the console otherwise.  
+   * Commands run one at a time, so the responses of concurrent commands don't mix.
+   *
+   * On the console, the response is every line that arrives after the command is sent, until `match` is satisfied,
+   * or until no line arrived for `quietPeriod` after the first one. Unrelated output at the same time ends up in the response, use `filter` to leave it out.
+   * @throws Error if the server isn't running, if it exits before responding, or if `match` isn't satisfied within the timeout.
    */
-  public getPlayers() {
-    return new Promise<string[]>((resolve, reject) => {
-      const players: string[] = [];
-      const dataHandler = (data: Server.ParsedData) => {
-        const result = data.message.match(/There are \d+ of a max of \d+ players online:\s*(.*)/);
-        if (result) {
-          players.push(...result[1].split(",").map(a => a.trim()).filter(Boolean));
-          this.players = new Set(players);
-          this.off("data", dataHandler);
-          resolve(players);
+  public execute(command: string, opts?: Server.ExecuteOptions): Promise<Server.CommandResult> {
+    const result = this.commandQueue.catch(() => { }).then(() => this.runCommand(command, opts ?? {}));
+    this.commandQueue = result;
+    return result;
+  }
+
+  private async runCommand(command: string, opts: Server.ExecuteOptions): Promise<Server.CommandResult> {
+    const { timeout = 5000, quietPeriod = 250, filter, match } = opts;
+    const accepts = (data: Server.ParsedData) => !filter || (filter instanceof RegExp ? filter.test(data.message) : filter(data));
+
+    if (this.rcon?.connected && opts.rcon !== false) {
+      const response = await this.rcon.send(command, { timeout });
+      const data = response.replace(/\u00a7./g, "").split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map<Server.ParsedData>(message => ({ message }))
+        .filter(accepts);
+      return { command, lines: data.map(d => d.message), data, via: "rcon" };
+    }
+
+    if (!this.isRunning()) {
+      throw new Error(`Cannot run ${command}, the server is not running.`);
+    }
+
+    return new Promise<Server.CommandResult>((resolve, reject) => {
+      const data: Server.ParsedData[] = [];
+      let echoed = false;
+      let quietTimer: NodeJS.Timeout | undefined;
+
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        clearTimeout(quietTimer);
+        this.off("data", dataHandler);
+        this.off("exit", exitHandler);
+        if (error) reject(error);
+        else resolve({ command, lines: data.map(d => d.message), data, via: "console" });
+      };
+      const dataHandler = (line: Server.ParsedData) => {
+        // The console may echo the command back
+        if (!echoed && (line.message === command || line.message === `> ${command}`)) {
+          echoed = true;
+          return;
+        }
+        if (!accepts(line)) return;
+        data.push(line);
+
+        if (match) {
+          if (match instanceof RegExp ? match.test(line.message) : match(data)) finish();
+        }
+        else {
+          clearTimeout(quietTimer);
+          quietTimer = setTimeout(() => finish(), quietPeriod);
         }
       };
+      const exitHandler = () => finish(new Error(`The server exited before responding to ${command}.`));
+      const timer = setTimeout(() => {
+        if (match) finish(new Error(`Timed out waiting for the response to ${command}.`));
+        else finish();
+      }, timeout);
 
       this.on("data", dataHandler);
-      this.writeLine("list");
+      this.once("exit", exitHandler);
+      this.writeLine(command);
+    });
+  }
 
-      setTimeout(() => {
-        this.off("data", dataHandler);
-        reject(new Error("Timeout"));
-      }, 2000);
-    })
+  /**
+   * Run a command and find the line of the response that matches a pattern. The response ends early on lines matching `Server.commandErrorPattern`.
+   * @throws Error if no line matches, with the response as the message.
+   */
+  protected async executeMatch(command: string, pattern: RegExp, opts?: Server.ExecuteOptions): Promise<RegExpMatchArray> {
+    const result = await this.execute(command, {
+      match: (data) => data.some(d => pattern.test(d.message) || Server.commandErrorPattern.test(d.message)),
+      ...opts
+    });
+    for (const line of result.lines) {
+      const found = line.match(pattern);
+      if (found) return found;
+    }
+    throw new Error(`Unexpected response to ${command}: ${result.lines.join("\n") || "no response"}`);
+  }
+
+  /**
+   * Split the names listed by a command such as `list`. Old versions list them on the line after the count, so that line is used if the count line has none.
+   */
+  private static readNames(lines: string[], index: number, names: string, count: number): string[] {
+    const text = names.trim() || (count > 0 ? lines[index + 1] ?? "" : "");
+    return text.split(",").map(name => name.trim()).filter(Boolean);
+  }
+
+  /**
+   * Run the `list` command.
+   */
+  public async list(opts?: Server.ExecuteOptions): Promise<Server.PlayerList> {
+    const pattern = /There are (\d+)(?: of a max(?: of)? | out of maximum |\/)(\d+) players online[:.]?\s*(.*)/;
+    const result = await this.execute("list", {
+      match: (data) => {
+        const index = data.findIndex(d => pattern.test(d.message));
+        if (index === -1) return false;
+        const [, online, , names] = data[index].message.match(pattern)!;
+        return online === "0" || names.trim() !== "" || index + 1 < data.length;
+      },
+      ...opts
+    });
+
+    const index = result.lines.findIndex(line => pattern.test(line));
+    if (index === -1) {
+      throw new Error(`Unexpected response to list: ${result.lines.join("\n") || "no response"}`);
+    }
+    const [, online, max, names] = result.lines[index].match(pattern)!;
+    return {
+      online: parseInt(online),
+      max: parseInt(max),
+      players: Server.readNames(result.lines, index, names, parseInt(online))
+    };
+  }
+
+  /**
+   * Get a list of players currently online on the server. It checks using the `list` command.  
+   * It will update the `players` property of the server.
+   * @returns A promise that resolves with an array of player names.
+   */
+  public async getPlayers(): Promise<string[]> {
+    const { players } = await this.list();
+    this.players = new Map(players.map(name => [name, this.players.get(name) ?? this.getKnownUuid(name)]));
+    return players;
+  }
+
+  /**
+   * Run `time query`.
+   * @param query `daytime` for the time of day in ticks, `gametime` for the total ticks the world has run and `day` for the number of days.
+   */
+  public async getTime(query: Server.TimeQuery = "daytime"): Promise<number> {
+    const [, time] = await this.executeMatch(`time query ${query}`, /The time is (\d+)/);
+    return parseInt(time);
+  }
+
+  /**
+   * Get the value of a game rule with the `gamerule` command.
+   */
+  public async getGamerule(rule: string): Promise<Server.GameruleValue> {
+    const [, , value] = await this.executeMatch(`gamerule ${rule}`, /Game ?rule (\S+) is currently set to:? (.*)/i);
+    return Server.parseGameruleValue(value);
+  }
+
+  /**
+   * Set a game rule with the `gamerule` command.
+   */
+  public async setGamerule(rule: string, value: Server.GameruleValue): Promise<Server.GameruleValue> {
+    const [, , result] = await this.executeMatch(`gamerule ${rule} ${value}`, /Game ?rule (\S+) (?:is now set to:?|has been updated to) (.*)/i);
+    return Server.parseGameruleValue(result);
+  }
+
+  private static parseGameruleValue(value: string): Server.GameruleValue {
+    value = value.trim();
+    if (value === "true" || value === "false") return value === "true";
+    return /^-?\d+$/.test(value) ? parseInt(value) : value;
+  }
+
+  /**
+   * Get the world seed with the `seed` command. Seeds are returned as strings, since they don't fit in a number.
+   */
+  public async getSeed(): Promise<string> {
+    const [, seed] = await this.executeMatch("seed", /Seed: \[?(-?\d+)\]?/);
+    return seed;
+  }
+
+  /**
+   * Get the names on the whitelist with the `whitelist list` command. See `getWhitelist` for the full entries.
+   */
+  public async listWhitelist(): Promise<string[]> {
+    const pattern = /There are (no|\d+) (?:\(out of \d+ seen\) )?whitelisted player(?:s|\(s\))?:?\s*(.*)/;
+    const result = await this.execute("whitelist list", {
+      match: (data) => {
+        const index = data.findIndex(d => pattern.test(d.message));
+        if (index === -1) return false;
+        const [, count, names] = data[index].message.match(pattern)!;
+        return count === "no" || names.trim() !== "" || index + 1 < data.length;
+      }
+    });
+    const index = result.lines.findIndex(line => pattern.test(line));
+    if (index === -1) {
+      throw new Error(`Unexpected response to whitelist list: ${result.lines.join("\n") || "no response"}`);
+    }
+    const [, count, names] = result.lines[index].match(pattern)!;
+    return Server.readNames(result.lines, index, names, count === "no" ? 0 : parseInt(count));
   }
 
   private _rlInterface?: rl.Interface;
@@ -556,8 +1068,8 @@ export class Server extends EventEmitter {
 
 
     const host = (properties["server-ip"] || "localhost").toString();
-    const port = +(properties["rcon.port"] ?? "25575");
-    const enabled = properties["enable-rcon"] === "true";
+    const port = +(properties["rcon.port"] ?? 25575);
+    const enabled = properties["enable-rcon"] === true;
     const password = properties["rcon.password"] ? properties["rcon.password"].toString() : undefined;
 
     if (!enabled || !password) {
@@ -579,7 +1091,43 @@ export class Server extends EventEmitter {
   }
 
   /**
-   * Accept the EULA for the server. This will set `eula=true` in the eula.txt file.
+   * Ping the server using the Server List Ping protocol. Uses the `server-ip` and `server-port` properties, loading them if they aren't already.
+   * @param opts Options for the ping. Set `legacy` to use the pre-1.7 protocol.
+   */
+  public async ping(opts?: ServerListPing.PingOptions): Promise<ServerListPing.Status> {
+    if (Object.keys(this.properties).length === 0) {
+      await this.loadProperties();
+    }
+
+    const host = (this.properties["server-ip"] || "localhost").toString();
+    const port = +(this.properties["server-port"] || 25565);
+
+    return await ServerListPing.ping(host, port, opts);
+  }
+
+  /**
+   * Request full stats, including the full player list, using the query protocol. Requires the `enable-query` property to be set in the server.properties file.  
+   * Uses the `server-ip` and `query.port` properties, loading them if they aren't already.
+   *
+   * @throws Error if query is not enabled in the server.properties file.
+   */
+  public async query(opts?: Query.Options): Promise<Query.FullStat> {
+    if (Object.keys(this.properties).length === 0) {
+      await this.loadProperties();
+    }
+
+    if (!this.properties["enable-query"]) {
+      throw new Error("Query is not enabled. Please set the `enable-query` property in the server.properties file.");
+    }
+
+    const host = (this.properties["server-ip"] || "localhost").toString();
+    const port = +(this.properties["query.port"] || this.properties["server-port"] || 25565);
+
+    return await Query.fullStat(host, port, opts);
+  }
+
+  /**
+   * Accept the EULA for the server. This will set `eula=true` in the eula.txt file.
    */
   public async acceptEula() {
     const eulaPath = Path.resolve(this.path, "eula.txt");
@@ -594,14 +1142,406 @@ export class Server extends EventEmitter {
     }
   }
 
+  /**
+   * Responses of player list commands that didn't do anything, besides `Server.commandErrorPattern`.
+   * Responses starting with "Nothing changed" aren't included, since the player is already in the requested state.
+   */
+  private static playerCommandErrorPattern = /^(That player does not exist|No player was found|Could not|Invalid IP address|Unknown player)/i;
+
+  /**
+   * Send a command to the running server, through RCON if it's connected and the console otherwise.
+   * @throws Error if the response says the command failed.
+   */
+  private async sendCommand(command: string) {
+    const result = await this.execute(command);
+    const failure = result.lines.find(line => Server.commandErrorPattern.test(line) || Server.playerCommandErrorPattern.test(line));
+    if (failure) {
+      throw new Error(`${command} failed: ${failure}`);
+    }
+  }
+
+  /**
+   * Make sure a player name can't smuggle another command into the console.
+   * @param allowUuid Whether a UUID is accepted as well.
+   * @throws Error if the name isn't a valid player name.
+   */
+  private static checkPlayer(player: string, allowUuid = false) {
+    if (/^[A-Za-z0-9_]{1,16}$/.test(player)) return;
+    if (allowUuid && /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i.test(player)) return;
+    throw new Error(`Invalid player name: ${JSON.stringify(player)}`);
+  }
+
+  /**
+   * @throws Error if the address isn't a valid IP address.
+   */
+  private static checkIp(ip: string) {
+    if (!net.isIP(ip)) throw new Error(`Invalid IP address: ${JSON.stringify(ip)}`);
+  }
+
+  /**
+   * @throws Error if the reason spans several lines.
+   */
+  private static checkReason(reason?: string) {
+    if (reason && /[\r\n]/.test(reason)) throw new Error("The ban reason can't contain line breaks.");
+  }
+
+  /**
+   * Look up the UUID of a player in the player lists of the server, and resolve it if the player isn't in any.
+   */
+  private async resolvePlayerUuid(name: string, uuid?: string) {
+    if (uuid) return uuid;
+    const lower = name.toLowerCase();
+    const lists = await Promise.all([
+      PlayerLists.readOperators(this.path),
+      PlayerLists.readWhitelist(this.path),
+      PlayerLists.readBannedPlayers(this.path)
+    ]);
+    for (const list of lists) {
+      const entry = list.find(e => e.name.toLowerCase() === lower);
+      if (entry) return entry.uuid;
+    }
+    return (await this.resolvePlayer(name)).uuid;
+  }
+
+  private static matchesPlayer(entry: { name: string, uuid: string }, player: string) {
+    return entry.name.toLowerCase() === player.toLowerCase() || entry.uuid === player;
+  }
+
+  /**
+   * Commands only take names, so a UUID is looked up in the list first.
+   */
+  private static commandPlayer(entries: { name: string, uuid: string }[], player: string) {
+    return entries.find(entry => Server.matchesPlayer(entry, player))?.name ?? player;
+  }
+
+  /**
+   * Get the operators from `ops.json`. Returns an empty list if the file doesn't exist.
+   */
   public async getOperators(): Promise<Server.Operator[]> {
-    const opsPath = Path.resolve(this.path, "ops.json");
-    if (await fsp.stat(opsPath).then(() => true).catch(() => false)) {
-      const data = await fsp.readFile(opsPath, "utf-8");
-      const players: Server.Operator[] = JSON.parse(data);
-      return players;
+    return await PlayerLists.readOperators(this.path);
+  }
+
+  /**
+   * Make a player an operator. Uses the `op` command while the server is running, in which case `level` and `bypassesPlayerLimit` are ignored and the `op-permission-level` property applies.
+   * @param name Name of the player.
+   * @throws Error if the name is invalid, or if the `op` command fails.
+   */
+  public async addOperator(name: string, opts?: Server.OperatorOptions) {
+    opts ??= {};
+    Server.checkPlayer(name);
+    if (this.isRunning()) {
+      return await this.sendCommand(`op ${name}`);
+    }
+
+    const uuid = await this.resolvePlayerUuid(name, opts.uuid);
+    const ops = (await this.getOperators()).filter(op => op.uuid !== uuid);
+    ops.push({
+      uuid,
+      name,
+      level: opts.level ?? +(this.properties["op-permission-level"] ?? 4),
+      bypassesPlayerLimit: opts.bypassesPlayerLimit ?? false
+    });
+    await PlayerLists.writeRaw(this.path, "ops", ops);
+  }
+
+  /**
+   * Remove a player from the operators.
+   * @param player Name or UUID of the player.
+   */
+  public async removeOperator(player: string) {
+    Server.checkPlayer(player, true);
+    const ops = await this.getOperators();
+    if (this.isRunning()) {
+      return await this.sendCommand(`deop ${Server.commandPlayer(ops, player)}`);
     }
-    throw new Error("Ops file not found.");
+    await PlayerLists.writeRaw(this.path, "ops", ops.filter(op => !Server.matchesPlayer(op, player)));
+  }
+
+  /**
+   * Get the players from `whitelist.json`. Returns an empty list if the file doesn't exist.
+   */
+  public async getWhitelist(): Promise<PlayerLists.WhitelistEntry[]> {
+    return await PlayerLists.readWhitelist(this.path);
+  }
+
+  /**
+   * Add a player to the whitelist. Uses the `whitelist add` command while the server is running.
+   * @param name Name of the player.
+   * @throws Error if the name is invalid, or if the `whitelist add` command fails.
+   */
+  public async addToWhitelist(name: string, opts?: Server.PlayerOptions) {
+    opts ??= {};
+    Server.checkPlayer(name);
+    if (this.isRunning()) {
+      return await this.sendCommand(`whitelist add ${name}`);
+    }
+
+    const uuid = await this.resolvePlayerUuid(name, opts.uuid);
+    const whitelist = (await this.getWhitelist()).filter(entry => entry.uuid !== uuid);
+    whitelist.push({ uuid, name });
+    await PlayerLists.writeRaw(this.path, "whitelist", whitelist);
+  }
+
+  /**
+   * Remove a player from the whitelist.
+   * @param player Name or UUID of the player.
+   */
+  public async removeFromWhitelist(player: string) {
+    Server.checkPlayer(player, true);
+    const whitelist = await this.getWhitelist();
+    if (this.isRunning()) {
+      return await this.sendCommand(`whitelist remove ${Server.commandPlayer(whitelist, player)}`);
+    }
+    await PlayerLists.writeRaw(this.path, "whitelist", whitelist.filter(entry => !Server.matchesPlayer(entry, player)));
+  }
+
+  public isWhitelistEnabled() {
+    return (this.properties["white-list"] ?? this.properties["whitelist"]) === true;
+  }
+
+  /**
+   * Turn the whitelist on or off. Both the `white-list` and the `whitelist` property are kept in sync.
+   * Uses the `whitelist on` and `whitelist off` commands while the server is running, otherwise server.properties is saved.
+   */
+  public async setWhitelistEnabled(enabled: boolean) {
+    if (Object.keys(this.properties).length === 0) {
+      await this.loadProperties();
+    }
+
+    this.properties["white-list"] = enabled;
+    if ("whitelist" in this.properties) {
+      this.properties["whitelist"] = enabled;
+    }
+
+    if (this.isRunning()) {
+      return await this.sendCommand(`whitelist ${enabled ? "on" : "off"}`);
+    }
+    await this.saveProperties();
+  }
+
+  /**
+   * Get the players from `banned-players.json`. Returns an empty list if the file doesn't exist.
+   */
+  public async getBannedPlayers(): Promise<PlayerLists.BannedPlayer[]> {
+    return await PlayerLists.readBannedPlayers(this.path);
+  }
+
+  /**
+   * Ban a player. Uses the `ban` command while the server is running, in which case `source` and `expires` are ignored.
+   * @param name Name of the player.
+   * @throws Error if the name is invalid, if the reason contains a line break, or if the `ban` command fails.
+   */
+  public async banPlayer(name: string, opts?: Server.BanPlayerOptions) {
+    opts ??= {};
+    Server.checkPlayer(name);
+    Server.checkReason(opts.reason);
+    if (this.isRunning()) {
+      return await this.sendCommand(`ban ${name}${opts.reason ? ` ${opts.reason}` : ""}`);
+    }
+
+    const uuid = await this.resolvePlayerUuid(name, opts.uuid);
+    const bans = (await this.getBannedPlayers()).filter(ban => ban.uuid !== uuid);
+    bans.push({
+      uuid,
+      name,
+      created: new Date(),
+      source: opts.source ?? "Server",
+      expires: opts.expires ?? "forever",
+      reason: opts.reason ?? "Banned by an operator."
+    });
+    await PlayerLists.writeBannedPlayers(this.path, bans);
+  }
+
+  /**
+   * Unban a player.
+   * @param player Name or UUID of the player.
+   */
+  public async pardonPlayer(player: string) {
+    Server.checkPlayer(player, true);
+    const bans = await this.getBannedPlayers();
+    if (this.isRunning()) {
+      return await this.sendCommand(`pardon ${Server.commandPlayer(bans, player)}`);
+    }
+    await PlayerLists.writeBannedPlayers(this.path, bans.filter(ban => !Server.matchesPlayer(ban, player)));
+  }
+
+  /**
+   * Get the addresses from `banned-ips.json`. Returns an empty list if the file doesn't exist.
+   */
+  public async getBannedIps(): Promise<PlayerLists.BannedIp[]> {
+    return await PlayerLists.readBannedIps(this.path);
+  }
+
+  /**
+   * Ban an IP address. Uses the `ban-ip` command while the server is running, in which case `source` and `expires` are ignored.
+   * @throws Error if the address is invalid, if the reason contains a line break, or if the `ban-ip` command fails.
+   */
+  public async banIp(ip: string, opts?: PlayerLists.BanOptions) {
+    opts ??= {};
+    Server.checkIp(ip);
+    Server.checkReason(opts.reason);
+    if (this.isRunning()) {
+      return await this.sendCommand(`ban-ip ${ip}${opts.reason ? ` ${opts.reason}` : ""}`);
+    }
+
+    const bans = (await this.getBannedIps()).filter(ban => ban.ip !== ip);
+    bans.push({
+      ip,
+      created: new Date(),
+      source: opts.source ?? "Server",
+      expires: opts.expires ?? "forever",
+      reason: opts.reason ?? "Banned by an operator."
+    });
+    await PlayerLists.writeBannedIps(this.path, bans);
+  }
+
+  /**
+   * Unban an IP address.
+   */
+  public async pardonIp(ip: string) {
+    Server.checkIp(ip);
+    if (this.isRunning()) {
+      return await this.sendCommand(`pardon-ip ${ip}`);
+    }
+    const bans = await this.getBannedIps();
+    await PlayerLists.writeBannedIps(this.path, bans.filter(ban => ban.ip !== ip));
+  }
+
+  /**
+   * Wait for a line of server output matching the pattern.
+   * @param pattern Pattern to match against the message of each line.
+   * @param timeout Time in milliseconds to wait before rejecting.
+   */
+  protected waitForData(pattern: RegExp, timeout: number) {
+    return new Promise<Server.ParsedData>((resolve, reject) => {
+      const dataHandler = (data: Server.ParsedData) => {
+        if (pattern.test(data.message)) {
+          clearTimeout(timer);
+          this.off("data", dataHandler);
+          resolve(data);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.off("data", dataHandler);
+        reject(new Error(`Timed out waiting for ${pattern}`));
+      }, timeout);
+      this.on("data", dataHandler);
+    });
+  }
+
+  /**
+   * Directory backups are stored in. Default is `backups` in the server directory.
+   */
+  public backupDirectory?: string;
+
+  /**
+   * Retention policy applied after each backup. Keeps everything if not set.
+   */
+  public backupRetention?: Backup.RetentionPolicy;
+
+  public getBackupDirectory(): string {
+    return this.backupDirectory ?? Path.join(this.path, "backups");
+  }
+
+  /**
+   * Directories that make up the world, relative to the server root. Includes the separate nether and end directories used by Bukkit based servers.
+   */
+  public async getLevelDirectories(): Promise<string[]> {
+    if (Object.keys(this.properties).length === 0) {
+      await this.loadProperties();
+    }
+    const levelName = (this.properties["level-name"] || "world").toString();
+    const directories: string[] = [];
+    for (const dir of [levelName, `${levelName}_nether`, `${levelName}_the_end`]) {
+      if (await fsp.stat(Path.join(this.path, dir)).then(s => s.isDirectory()).catch(() => false)) {
+        directories.push(dir);
+      }
+    }
+    return directories;
+  }
+
+  /**
+   * Take a backup of the world. If the server is running, saving is turned off and the world is flushed to disk first,
+   * and saving is turned back on when the archive is written.
+   * @returns The manifest of the new backup.
+   */
+  public async backup(opts?: Backup.Options): Promise<Backup.Manifest> {
+    opts ??= {};
+    const directories = await this.getLevelDirectories();
+    if (directories.length === 0) {
+      throw new Error("No world found to back up.");
+    }
+
+    const live = this.isRunning();
+    if (live) {
+      this.writeLine("save-off");
+      try {
+        const saved = this.waitForData(/Saved the game|Save complete/, opts.saveTimeout ?? 60000);
+        this.writeLine("save-all flush");
+        await saved;
+      } catch (error) {
+        this.writeLine("save-on");
+        throw error;
+      }
+    }
+
+    let manifest: Backup.Manifest;
+    try {
+      manifest = await Backup.create(this.path, directories, this.getBackupDirectory(), {
+        server: this.name,
+        version: this.version,
+        levelName: (this.properties["level-name"] || "world").toString(),
+        label: opts.label,
+        live
+      });
+    } finally {
+      if (live) this.writeLine("save-on");
+    }
+
+    const retention = opts.retention ?? this.backupRetention;
+    if (retention) {
+      await this.pruneBackups(retention);
+    }
+
+    this.emit("backup", manifest);
+    return manifest;
+  }
+
+  /**
+   * List the backups of this server, newest first.
+   */
+  public async listBackups(): Promise<Backup.Manifest[]> {
+    return await Backup.list(this.getBackupDirectory());
+  }
+
+  /**
+   * Delete the backups a retention policy doesn't keep.
+   * @param policy Retention policy. Default is `backupRetention`.
+   * @returns The removed backups.
+   */
+  public async pruneBackups(policy?: Backup.RetentionPolicy): Promise<Backup.Manifest[]> {
+    policy ??= this.backupRetention ?? {};
+    const expired = Backup.selectExpired(await this.listBackups(), policy);
+    for (const manifest of expired) {
+      await Backup.remove(this.getBackupDirectory(), manifest);
+    }
+    return expired;
+  }
+
+  /**
+   * Restore a backup into the level directories. The server must be stopped.
+   * @param id Id of the backup to restore.
+   * @throws Error if the server is running or the backup doesn't exist.
+   */
+  public async restoreBackup(id: string) {
+    if (this.isRunning()) {
+      throw new Error("Cannot restore a backup while the server is running. Stop the server first.");
+    }
+    const manifest = (await this.listBackups()).find(m => m.id === id);
+    if (!manifest) {
+      throw new Error(`Backup ${id} not found.`);
+    }
+    await Backup.restore(this.getBackupDirectory(), manifest, this.path);
   }
 
   private ready: boolean = false;
@@ -630,10 +1570,46 @@ export interface Server {
   off(event: "data", listener: (data: Server.ParsedData) => void): this;
 
   // Exit
-  emit(event: "exit", code: number): boolean;
-  on(event: "exit", listener: (code: number) => void): this;
-  once(event: "exit", listener: (code: number) => void): this;
-  off(event: "exit", listener: (code: number) => void): this;
+  emit(event: "exit", code: number, info: Server.ExitInfo): boolean;
+  on(event: "exit", listener: (code: number, info: Server.ExitInfo) => void): this;
+  once(event: "exit", listener: (code: number, info: Server.ExitInfo) => void): this;
+  off(event: "exit", listener: (code: number, info: Server.ExitInfo) => void): this;
+
+  // Crash report written
+  emit(event: "crash", report: CrashReport): boolean;
+  on(event: "crash", listener: (report: CrashReport) => void): this;
+  once(event: "crash", listener: (report: CrashReport) => void): this;
+  off(event: "crash", listener: (report: CrashReport) => void): this;
+
+  // Supervisor restarting after an exit
+  emit(event: "restarting", info: Server.ExitInfo, attempt: number, delay: number): boolean;
+  on(event: "restarting", listener: (info: Server.ExitInfo, attempt: number, delay: number) => void): this;
+  once(event: "restarting", listener: (info: Server.ExitInfo, attempt: number, delay: number) => void): this;
+  off(event: "restarting", listener: (info: Server.ExitInfo, attempt: number, delay: number) => void): this;
+
+  // Supervisor gave up after too many restarts
+  emit(event: "gave-up", info: Server.ExitInfo, restarts: number): boolean;
+  on(event: "gave-up", listener: (info: Server.ExitInfo, restarts: number) => void): this;
+  once(event: "gave-up", listener: (info: Server.ExitInfo, restarts: number) => void): this;
+  off(event: "gave-up", listener: (info: Server.ExitInfo, restarts: number) => void): this;
+
+  // Scheduled job ran
+  emit(event: "job-complete", job: Scheduler.Job): boolean;
+  on(event: "job-complete", listener: (job: Scheduler.Job) => void): this;
+  once(event: "job-complete", listener: (job: Scheduler.Job) => void): this;
+  off(event: "job-complete", listener: (job: Scheduler.Job) => void): this;
+
+  // Scheduled job skipped because a condition wasn't met
+  emit(event: "job-skipped", job: Scheduler.Job, condition: string): boolean;
+  on(event: "job-skipped", listener: (job: Scheduler.Job, condition: string) => void): this;
+  once(event: "job-skipped", listener: (job: Scheduler.Job, condition: string) => void): this;
+  off(event: "job-skipped", listener: (job: Scheduler.Job, condition: string) => void): this;
+
+  // Scheduled job failed
+  emit(event: "job-failed", job: Scheduler.Job, error: Error): boolean;
+  on(event: "job-failed", listener: (job: Scheduler.Job, error: Error) => void): this;
+  once(event: "job-failed", listener: (job: Scheduler.Job, error: Error) => void): this;
+  off(event: "job-failed", listener: (job: Scheduler.Job, error: Error) => void): this;
 
   // Error
   emit(event: "error", error: Error): boolean;
@@ -648,16 +1624,70 @@ export interface Server {
   off(event: "ready", listener: (message: string) => void): this;
 
   // Player join
-  emit(event: "join", player: string): boolean;
-  on(event: "join", listener: (player: string) => void): this;
-  once(event: "join", listener: (player: string) => void): this;
-  off(event: "join", listener: (player: string) => void): this;
+  emit(event: "join", player: string, uuid?: string): boolean;
+  on(event: "join", listener: (player: string, uuid?: string) => void): this;
+  once(event: "join", listener: (player: string, uuid?: string) => void): this;
+  off(event: "join", listener: (player: string, uuid?: string) => void): this;
 
   // Player leave
-  emit(event: "leave", player: string): boolean;
-  on(event: "leave", listener: (player: string) => void): this;
-  once(event: "leave", listener: (player: string) => void): this;
-  off(event: "leave", listener: (player: string) => void): this;
+  emit(event: "leave", player: string, uuid?: string): boolean;
+  on(event: "leave", listener: (player: string, uuid?: string) => void): this;
+  once(event: "leave", listener: (player: string, uuid?: string) => void): this;
+  off(event: "leave", listener: (player: string, uuid?: string) => void): this;
+
+  // Backup taken
+  emit(event: "backup", manifest: Backup.Manifest): boolean;
+  on(event: "backup", listener: (manifest: Backup.Manifest) => void): this;
+  once(event: "backup", listener: (manifest: Backup.Manifest) => void): this;
+  off(event: "backup", listener: (manifest: Backup.Manifest) => void): this;
+
+  // Player chat message
+  emit(event: "chat", message: Server.ChatMessage): boolean;
+  on(event: "chat", listener: (message: Server.ChatMessage) => void): this;
+  once(event: "chat", listener: (message: Server.ChatMessage) => void): this;
+  off(event: "chat", listener: (message: Server.ChatMessage) => void): this;
+
+  // Message sent with /say
+  emit(event: "say", message: Server.SayMessage): boolean;
+  on(event: "say", listener: (message: Server.SayMessage) => void): this;
+  once(event: "say", listener: (message: Server.SayMessage) => void): this;
+  off(event: "say", listener: (message: Server.SayMessage) => void): this;
+
+  // Message sent with /me
+  emit(event: "me", message: Server.SayMessage): boolean;
+  on(event: "me", listener: (message: Server.SayMessage) => void): this;
+  once(event: "me", listener: (message: Server.SayMessage) => void): this;
+  off(event: "me", listener: (message: Server.SayMessage) => void): this;
+
+  // Player death
+  emit(event: "death", death: Server.Death): boolean;
+  on(event: "death", listener: (death: Server.Death) => void): this;
+  once(event: "death", listener: (death: Server.Death) => void): this;
+  off(event: "death", listener: (death: Server.Death) => void): this;
+
+  // Advancement, challenge or goal
+  emit(event: "advancement", advancement: Server.Advancement): boolean;
+  on(event: "advancement", listener: (advancement: Server.Advancement) => void): this;
+  once(event: "advancement", listener: (advancement: Server.Advancement) => void): this;
+  off(event: "advancement", listener: (advancement: Server.Advancement) => void): this;
+
+  // Player issued a command
+  emit(event: "command", command: Server.Command): boolean;
+  on(event: "command", listener: (command: Server.Command) => void): this;
+  once(event: "command", listener: (command: Server.Command) => void): this;
+  off(event: "command", listener: (command: Server.Command) => void): this;
+
+  // Server can't keep up
+  emit(event: "lag", warning: Server.LagWarning): boolean;
+  on(event: "lag", listener: (warning: Server.LagWarning) => void): this;
+  once(event: "lag", listener: (warning: Server.LagWarning) => void): this;
+  off(event: "lag", listener: (warning: Server.LagWarning) => void): this;
+
+  // Player logged in, before joining
+  emit(event: "login", login: Server.Login): boolean;
+  on(event: "login", listener: (login: Server.Login) => void): this;
+  once(event: "login", listener: (login: Server.Login) => void): this;
+  off(event: "login", listener: (login: Server.Login) => void): this;
 
   // EULA not accepted
   emit(event: "eula", message: string): boolean;
@@ -694,29 +1724,241 @@ export namespace Server {
     type?: string;
   }
 
+  /**
+   * Pattern matching a player name in log messages. Allows the prefixes used for Bedrock players by proxies such as Floodgate.
+   */
+  export let playerNamePattern = "[^\\s<>\\[\\]:]{1,32}";
+
+  export type DeathCause =
+    | "slain" | "shot" | "fireball" | "pummeled" | "magic" | "explosion" | "drowned" | "kinetic" | "fall" | "void"
+    | "anvil" | "falling-block" | "cramming" | "fire" | "lava" | "magma" | "lightning" | "starved" | "suffocated"
+    | "cactus" | "berry-bush" | "wither" | "freeze" | "thorns" | "sonic-boom" | "stalactite" | "stalagmite" | "dragon-breath"
+    | "sting" | "trident" | "firework" | "bad-respawn" | "generic";
+
+  /**
+   * Death messages, without the leading player name, and the cause they map to.
+   * The first capture group is the killer and the second the weapon, when the message has them. Checked in order.
+   */
+  export const deathMessages: [RegExp, DeathCause][] = [
+    [/^was slain by (.+?)(?: using (.+))?$/, "slain"],
+    [/^was shot by a skull from (.+?)(?: using (.+))?$/, "wither"],
+    [/^was shot by (.+?)(?: using (.+))?$/, "shot"],
+    [/^was fireballed by (.+?)(?: using (.+))?$/, "fireball"],
+    [/^was pummeled by (.+?)(?: using (.+))?$/, "pummeled"],
+    [/^was impaled by (.+?)(?: with (.+))?$/, "trident"],
+    [/^was stung to death(?: by (.+?)(?: using (.+))?)?$/, "sting"],
+    [/^was killed by (.+?) using magic$/, "magic"],
+    [/^was killed by (?:even more )?magic(?: whilst trying to escape (.+))?$/, "magic"],
+    [/^was killed by \[Intentional Game Design\]$/, "bad-respawn"],
+    [/^was killed trying to hurt (.+)$/, "thorns"],
+    [/^tried to hurt (.+?) and died$/, "thorns"],
+    [/^was blown up by (.+?)(?: using (.+))?$/, "explosion"],
+    [/^blew up$/, "explosion"],
+    [/^went off with a bang(?: due to a firework fired from (.+?) by (.+))?$/, "firework"],
+    [/^was obliterated by a sonically-charged shriek(?: whilst trying to escape (.+))?$/, "sonic-boom"],
+    [/^drowned(?: whilst trying to escape (.+))?$/, "drowned"],
+    [/^experienced kinetic energy(?: whilst trying to escape (.+))?$/, "kinetic"],
+    [/^(?:hit the ground too hard|fell from a high place|fell off (?:a ladder|some vines|some weeping vines|some twisting vines|scaffolding)|fell while climbing|fell too far and was finished by|was doomed to fall)(?:(?: whilst trying to escape| by| and was finished by)? (.+?)(?: using (.+))?)?$/, "fall"],
+    [/^(?:fell out of the world|didn't want to live in the same world as (.+)|left the confines of this world)$/, "void"],
+    [/^was squashed by a falling anvil(?: whilst fighting (.+))?$/, "anvil"],
+    [/^was squashed by a falling block(?: whilst fighting (.+))?$/, "falling-block"],
+    [/^was squished too much$/, "cramming"],
+    [/^was squashed by (.+)$/, "cramming"],
+    [/^(?:went up in flames|burned to death|walked into fire whilst fighting (.+)|was burnt to a crisp whilst fighting (.+))$/, "fire"],
+    [/^(?:tried to swim in lava(?: to escape (.+))?)$/, "lava"],
+    [/^(?:discovered the floor was lava|walked into the danger zone due to (.+))$/, "magma"],
+    [/^was struck by lightning(?: whilst fighting (.+))?$/, "lightning"],
+    [/^starved to death(?: whilst fighting (.+))?$/, "starved"],
+    [/^suffocated in a wall(?: whilst fighting (.+))?$/, "suffocated"],
+    [/^(?:was pricked to death|walked into a cactus whilst trying to escape (.+))$/, "cactus"],
+    [/^was poked to death by a sweet berry bush(?: whilst trying to escape (.+))?$/, "berry-bush"],
+    [/^withered away(?: whilst fighting (.+))?$/, "wither"],
+    [/^froze to death$/, "freeze"],
+    [/^was frozen to death by (.+)$/, "freeze"],
+    [/^was skewered by a falling stalactite(?: whilst fighting (.+))?$/, "stalactite"],
+    [/^was impaled on a stalagmite(?: whilst fighting (.+))?$/, "stalagmite"],
+    [/^was roasted in dragon(?:'s)? breath(?: by (.+))?$/, "dragon-breath"],
+    [/^was killed by (.+?)(?: using (.+))?$/, "generic"],
+    [/^died(?: because of (.+))?$/, "generic"],
+  ];
+
+  export interface ChatMessage {
+    player: string;
+    message: string;
+  }
+
+  /**
+   * A message sent with `/say` or `/me`. The sender is `Server` when sent from the console.
+   */
+  export interface SayMessage {
+    sender: string;
+    message: string;
+  }
+
+  export interface Death {
+    player: string;
+    cause: DeathCause;
+    /**
+     * Entity or player that caused the death, if the message names one.
+     */
+    killer?: string;
+    weapon?: string;
+    /**
+     * The full death message.
+     */
+    message: string;
+  }
+
+  export interface Advancement {
+    player: string;
+    kind: "advancement" | "challenge" | "goal" | "achievement";
+    advancement: string;
+  }
+
+  export interface Command {
+    player: string;
+    /**
+     * The command as typed, logged by Bukkit based servers.
+     */
+    command?: string;
+    /**
+     * Feedback of an admin command, logged by vanilla when `log-admin-commands` is on.
+     */
+    feedback?: string;
+  }
+
+  export interface LagWarning {
+    behindMs: number;
+    ticks: number;
+    message: string;
+  }
+
+  export interface Login {
+    player: string;
+    ip: string;
+    port: number;
+    entityId: number;
+    /**
+     * World name, only logged by Bukkit based servers.
+     */
+    world?: string;
+    position: { x: number; y: number; z: number };
+  }
+
+  /**
+   * Why the server process exited.
+   * - `clean`: The server shut down normally, or after `stop()` was called.
+   * - `crash`: The server exited with an error code or wrote a crash report, without being stopped.
+   * - `oom`: The server ran out of memory.
+   * - `killed`: The process was killed, either through `kill()` or by a signal.
+   */
+  export type ExitReason = "clean" | "crash" | "oom" | "killed";
+
+  export interface ExitInfo {
+    code: number;
+    signal?: number;
+    reason: ExitReason;
+    /**
+     * Whether the exit was requested through `stop()` or `kill()`.
+     */
+    requested: boolean;
+    /**
+     * Crash report written during this run, if any.
+     */
+    crashReport?: CrashReport;
+    startedAt: Date;
+    exitedAt: Date;
+  }
+
   export type AttachMiddleware = (data: string) => string | boolean | void;
 
   export interface InstallOptions {
-    progressStream?: ProgressStream;
+    /**
+     * Downloader used for all downloads of the installation. Listen to its `progress` events to follow along. Default is a new downloader.
+     */
+    downloader?: Downloader;
+    /**
+     * Endpoint and cache overrides for the metadata requests of the installation.
+     */
+    api?: MinecraftApi.RequestOptions;
   }
 
-  export interface Operator {
-    uuid: string,
-    name: string,
-    level: number,
-    bypassesPlayerLimit: boolean
+  export interface ExecuteOptions {
+    /**
+     * Time in milliseconds to wait for the response. Default is 5000.  
+     * Without `match`, the response is whatever arrived by then. With it, the command fails.
+     */
+    timeout?: number;
+    /**
+     * Time in milliseconds without new lines after which the response is considered complete. Only used without `match`. Default is 250.
+     */
+    quietPeriod?: number;
+    /**
+     * Ends the response once a line matches the pattern, or once the function returns true for the lines collected so far.
+     */
+    match?: RegExp | ((data: ParsedData[]) => boolean);
+    /**
+     * Only lines matching the pattern, or for which the function returns true, are part of the response.
+     */
+    filter?: RegExp | ((data: ParsedData) => boolean);
+    /**
+     * Whether to send the command through RCON when it's connected. Default is true.
+     */
+    rcon?: boolean;
   }
 
-  export class ProgressStream extends Writable {
-    constructor() {
-      super();
-    }
+  export interface CommandResult {
+    command: string;
+    /**
+     * Messages of the response lines, without log prefixes or color codes.
+     */
+    lines: string[];
+    /**
+     * Parsed response lines. Only `message` is set when the command was sent through RCON.
+     */
+    data: ParsedData[];
+    via: "rcon" | "console";
+  }
 
-    _write(chunk: any, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
-      this.emit("data", chunk.toString());
-      callback();
-    }
+  /**
+   * Matches the responses of failed commands, such as unknown commands and invalid arguments.
+   */
+  export let commandErrorPattern = /^(Unknown or incomplete command|Unknown command|Incorrect argument for command|Invalid|Expected|Usage:)/;
+
+  export interface PlayerList {
+    online: number;
+    max: number;
+    players: string[];
+  }
+
+  export type TimeQuery = "daytime" | "gametime" | "day";
+  export type GameruleValue = boolean | number | string;
+
+  export interface CommandLine {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+  }
+
+  export type Operator = PlayerLists.Operator;
+
+  export interface PlayerOptions {
+    /**
+     * UUID of the player. Resolved with `resolvePlayer` if not set and the player isn't in any player list.
+     */
+    uuid?: string;
+  }
+
+  export interface OperatorOptions extends PlayerOptions {
+    /**
+     * Permission level from 1 to 4. Default is the `op-permission-level` property, or 4.
+     */
+    level?: number;
+    bypassesPlayerLimit?: boolean;
   }
+
+  export interface BanPlayerOptions extends PlayerOptions, PlayerLists.BanOptions { }
 }
 
 
@@ -0,0 +1,466 @@
+import fsp from "node:fs/promises";
+import Path from "node:path";
+import net from "node:net";
+import EventEmitter from "node:events";
+import Server from "./Server";
+import ForgeServer from "./ForgeServer";
+import NeoForgeServer from "./NeoForgeServer";
+import FabricServer from "./FabricServer";
+import PaperServer from "./PaperServer";
+import LaunchProfile from "../LaunchProfile";
+
+/**
+ * Keeps track of many servers in one process.
+ * Server definitions are persisted to a JSON registry, and every event a registered server emits is re-emitted on the manager with the server's name as the first argument.
+ * An `error` handled on the manager doesn't also need a listener on the server.
+ *
+ * @example
+ * manager.on("join", (server, player) => console.log(`${player} joined ${server}`));
+ */
+export class ServerManager extends EventEmitter {
+  /**
+   * Constructors for the server types, keyed by the name stored in the registry.
+   */
+  public static types: Record<string, ServerManager.ServerConstructor> = {
+    vanilla: Server,
+    forge: ForgeServer,
+    neoforge: NeoForgeServer,
+    fabric: FabricServer,
+    paper: PaperServer,
+  };
+
+  /**
+   * Register a server type so it can be stored in and loaded from the registry.
+   */
+  public static registerType(name: string, ctor: ServerManager.ServerConstructor) {
+    ServerManager.types[name] = ctor;
+  }
+
+  /**
+   * Get the registry name of a server's type. Subclasses resolve to the most specific registered type.
+   */
+  public static getTypeName(server: Server): string {
+    let match: string | undefined;
+    for (const [name, ctor] of Object.entries(ServerManager.types)) {
+      if (server instanceof ctor && (!match || ctor.prototype instanceof ServerManager.types[match])) {
+        match = name;
+      }
+    }
+    if (!match) throw new Error(`Server type ${server.constructor.name} is not registered.`);
+    return match;
+  }
+
+  private entries = new Map<string, ServerManager.Entry>();
+
+  constructor(
+    /**
+     * Path of the JSON registry file. Servers are only kept in memory if not set.
+     */
+    public readonly registryPath?: string
+  ) {
+    super({ captureRejections: true });
+  }
+
+  /**
+   * Add a server to the manager.
+   * @param opts Name, groups and start order of the server. The name defaults to the server's directory name.
+   * @throws Error if a server with the same name is already registered.
+   */
+  public add(server: Server, opts?: ServerManager.AddOptions): this {
+    opts ??= {};
+    const name = opts.name ?? server.name;
+    if (this.entries.has(name)) {
+      throw new Error(`A server named ${name} is already registered.`);
+    }
+
+    const originalEmit = server.emit as (event: string | symbol, ...args: unknown[]) => boolean;
+    const manager = this;
+    server.emit = function (this: Server, event: string | symbol, ...args: unknown[]) {
+      if (event === "error") {
+        // An "error" without a listener on the server throws from its emit, so it is forwarded first,
+        // and counts as handled if the manager listens for it. An unhandled one would throw on the manager too
+        if (manager.listenerCount("error") === 0) return originalEmit.call(this, event, ...args);
+        manager.emit(event, name, ...args);
+        return this.listenerCount("error") > 0 ? originalEmit.call(this, event, ...args) : true;
+      }
+      const result = originalEmit.call(this, event, ...args);
+      manager.emit(event, name, ...args);
+      return result;
+    } as Server["emit"];
+
+    this.entries.set(name, {
+      name,
+      server,
+      groups: opts.groups ?? [],
+      order: opts.order ?? 0,
+      restoreEmit: () => {
+        server.emit = originalEmit as Server["emit"];
+      }
+    });
+    return this;
+  }
+
+  /**
+   * Remove a server from the manager. The server itself is left untouched.
+   */
+  public remove(name: string): boolean {
+    const entry = this.entries.get(name);
+    if (!entry) return false;
+    entry.restoreEmit();
+    this.entries.delete(name);
+    return true;
+  }
+
+  public get(name: string): Server | undefined {
+    return this.entries.get(name)?.server;
+  }
+
+  /**
+   * Names of the registered servers.
+   */
+  public names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Registered servers, in start order.
+   * @param group Only list servers in this group.
+   */
+  public list(group?: string): Server[] {
+    return this.getEntries(group).map(e => e.server);
+  }
+
+  private getEntries(group?: string) {
+    return [...this.entries.values()]
+      .filter(e => !group || e.groups.includes(group))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Get the definition stored in the registry for a server.
+   */
+  public getDefinition(name: string): ServerManager.Definition {
+    const entry = this.entries.get(name);
+    if (!entry) throw new Error(`Server ${name} is not registered.`);
+    const { server } = entry;
+
+    const definition: ServerManager.Definition = {
+      name,
+      path: server.path,
+      type: ServerManager.getTypeName(server),
+      version: server.version,
+      memory: server.memory,
+      javaPath: server.javaPath,
+      launchProfile: server.launchProfile,
+      jarFile: server.jarFile,
+      groups: entry.groups,
+      order: entry.order,
+    };
+    if (server instanceof ForgeServer) {
+      definition.forgeVersion = server.getForgeVersion();
+    }
+    if (server instanceof NeoForgeServer) {
+      definition.neoforgeVersion = server.getNeoForgeVersion();
+    }
+    if (server instanceof FabricServer) {
+      definition.loaderVersion = server.getLoaderVersion();
+      definition.installerVersion = server.getInstallerVersion();
+    }
+    if (server instanceof PaperServer) {
+      const build = server.getBuild();
+      definition.build = build;
+      definition.project = server.project;
+    }
+    return definition;
+  }
+
+  /**
+   * Create a server from a registry definition.
+   */
+  public static createServer(definition: ServerManager.Definition): Server {
+    const ctor = ServerManager.types[definition.type];
+    if (!ctor) throw new Error(`Unknown server type ${definition.type}.`);
+
+    const server = new ctor(definition.path, definition.jarFile);
+    if (definition.version) server.setVersion(definition.version);
+    if (definition.memory) server.setMemory(definition.memory[0], definition.memory[1]);
+    if (definition.javaPath) server.setJavaPath(definition.javaPath);
+    if (definition.launchProfile) server.setLaunchProfile(definition.launchProfile);
+    if (server instanceof ForgeServer && definition.forgeVersion) {
+      server.setForgeVersion(definition.forgeVersion);
+    }
+    if (server instanceof NeoForgeServer && definition.neoforgeVersion) {
+      server.setNeoForgeVersion(definition.neoforgeVersion);
+    }
+    if (server instanceof FabricServer) {
+      if (definition.loaderVersion) server.setLoaderVersion(definition.loaderVersion);
+      if (definition.installerVersion) server.setInstallerVersion(definition.installerVersion);
+    }
+    if (server instanceof PaperServer) {
+      if (definition.build) server.setBuild(definition.build);
+      if (definition.project) server.setProject(definition.project);
+    }
+    return server;
+  }
+
+  /**
+   * Write the definitions of all registered servers to the registry file.
+   */
+  public async save() {
+    if (!this.registryPath) throw new Error("No registry path set.");
+    const registry: ServerManager.Registry = {
+      servers: this.names().map(name => this.getDefinition(name))
+    };
+    await fsp.mkdir(Path.dirname(this.registryPath), { recursive: true });
+    const tmp = `${this.registryPath}.tmp`;
+    await fsp.writeFile(tmp, JSON.stringify(registry, null, 2));
+    await fsp.rename(tmp, this.registryPath);
+  }
+
+  /**
+   * Load the servers from the registry file. Servers that are already registered under the same name are skipped.
+   * @returns The servers that were added.
+   */
+  public async load(): Promise<Server[]> {
+    if (!this.registryPath) throw new Error("No registry path set.");
+    const data = await fsp.readFile(this.registryPath, "utf-8").catch(() => null);
+    if (data === null) return [];
+
+    const registry: ServerManager.Registry = JSON.parse(data);
+    const added: Server[] = [];
+    for (const definition of registry.servers ?? []) {
+      if (this.entries.has(definition.name)) continue;
+      const server = ServerManager.createServer(definition);
+      this.add(server, { name: definition.name, groups: definition.groups, order: definition.order });
+      added.push(server);
+    }
+    return added;
+  }
+
+  /**
+   * Assign `server-port`, `rcon.port` and `query.port` values that don't conflict with any other registered server or a port in use on this machine.
+   * Ports that are already free of conflicts are kept. The properties are saved to each server's server.properties file.
+   * @param names Servers to allocate ports for. Default is all registered servers.
+   */
+  public async allocatePorts(names?: string[], opts?: ServerManager.PortOptions) {
+    opts ??= {};
+    const basePort = opts.basePort ?? 25565;
+    const baseRconPort = opts.baseRconPort ?? 25575;
+    const targets = new Set(names ?? this.names());
+
+    // Ports held by servers that keep their ports
+    const used = new Set<number>();
+    for (const entry of this.entries.values()) {
+      if (targets.has(entry.name)) continue;
+      await entry.server.loadProperties();
+      for (const port of ServerManager.getPorts(entry.server)) used.add(port);
+    }
+
+    const isFree = async (port: number) => !used.has(port) && (opts!.skipPortCheck || await ServerManager.isPortFree(port));
+    const allocate = async (base: number) => {
+      for (let port = base; port <= 65535; port++) {
+        if (!await isFree(port)) continue;
+        used.add(port);
+        return port;
+      }
+      throw new Error("No free port available.");
+    };
+
+    const targetEntries = this.getEntries().filter(e => targets.has(e.name));
+    const ports = new Map<string, { serverPort?: number; rconPort?: number }>();
+
+    // Keep the ports that don't conflict first, so only the conflicting servers are moved
+    for (const { name, server } of targetEntries) {
+      await server.loadProperties();
+      // A running server holds its own ports, so they can't be probed
+      const running = server.isRunning();
+      const canKeep = async (port: number) => running ? !used.has(port) : await isFree(port);
+      const kept: { serverPort?: number; rconPort?: number } = {};
+      const serverPort = server.getProperty<number>("server-port");
+      if (typeof serverPort === "number" && await canKeep(serverPort)) {
+        used.add(serverPort);
+        kept.serverPort = serverPort;
+      }
+      const rconPort = server.getProperty<number>("rcon.port");
+      if (typeof rconPort === "number" && await canKeep(rconPort)) {
+        used.add(rconPort);
+        kept.rconPort = rconPort;
+      }
+      ports.set(name, kept);
+    }
+
+    const result: Record<string, { serverPort: number; rconPort: number; queryPort: number }> = {};
+    for (const { name, server } of targetEntries) {
+      const kept = ports.get(name)!;
+      const serverPort = kept.serverPort ?? await allocate(basePort);
+      const rconPort = kept.rconPort ?? await allocate(baseRconPort);
+      // Query runs over UDP, so it shares the number of its own server's TCP port
+      const queryPort = serverPort;
+
+      server.setProperty("server-port", serverPort);
+      server.setProperty("rcon.port", rconPort);
+      server.setProperty("query.port", queryPort);
+      await server.saveProperties();
+      result[name] = { serverPort, rconPort, queryPort };
+    }
+    return result;
+  }
+
+  /**
+   * Ports a server uses according to its loaded properties.
+   */
+  public static getPorts(server: Server): number[] {
+    const ports = [
+      server.getProperty<number>("server-port") ?? 25565,
+      server.getProperty<number>("rcon.port") ?? 25575,
+      server.getProperty<number>("query.port"),
+    ];
+    return ports.filter((p): p is number => typeof p === "number");
+  }
+
+  /**
+   * Check if a TCP port can be listened on.
+   */
+  public static isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const tester = net.createServer();
+      tester.once("error", () => resolve(false));
+      tester.once("listening", () => tester.close(() => resolve(true)));
+      tester.listen(port);
+    });
+  }
+
+  /**
+   * Start servers one after another in start order, waiting for each to be ready before starting the next.
+   * @param target A group name, or a list of server names. Default is all registered servers.
+   */
+  public async start(target?: string | string[], opts?: ServerManager.GroupOptions) {
+    opts ??= {};
+    for (const entry of this.resolveTarget(target)) {
+      const { server } = entry;
+      if (server.isRunning()) continue;
+      const readyTimeout = opts.readyTimeout ?? 300000;
+      let cleanup = () => {};
+      // Listen before starting, so a server that is ready right away isn't missed
+      const ready = opts.waitForReady === false ? null : new Promise<void>((resolve, reject) => {
+        const onReady = () => { cleanup(); resolve(); };
+        const onExit = (code: number) => { cleanup(); reject(new Error(`Server ${entry.name} exited with code ${code} before it was ready.`)); };
+        const timer = setTimeout(() => { cleanup(); reject(new Error(`Server ${entry.name} was not ready within ${readyTimeout}ms.`)); }, readyTimeout);
+        cleanup = () => {
+          clearTimeout(timer);
+          server.off("ready", onReady);
+          server.off("exit", onExit);
+        };
+        server.once("ready", onReady);
+        server.once("exit", onExit);
+      });
+      try {
+        await server.start();
+      }
+      catch (error) {
+        // The wait is abandoned, so it must not time out later
+        cleanup();
+        throw error;
+      }
+      await ready;
+    }
+  }
+
+  /**
+   * Stop servers one after another in reverse start order.
+   * @param target A group name, or a list of server names. Default is all registered servers.
+   */
+  public async stop(target?: string | string[]) {
+    for (const entry of this.resolveTarget(target).reverse()) {
+      if (entry.server.isRunning()) {
+        await entry.server.stop();
+      }
+    }
+  }
+
+  private resolveTarget(target?: string | string[]) {
+    if (Array.isArray(target)) {
+      return this.getEntries().filter(e => target.includes(e.name));
+    }
+    return this.getEntries(target);
+  }
+}
+
+export namespace ServerManager {
+  export type ServerConstructor = new (path: string, jarFile?: string) => Server;
+
+  export interface AddOptions {
+    /**
+     * Name of the server. Default is the server's directory name.
+     */
+    name?: string;
+    groups?: string[];
+    /**
+     * Servers are started in ascending order and stopped in descending order. Default is 0.
+     */
+    order?: number;
+  }
+
+  export interface Definition {
+    name: string;
+    path: string;
+    /**
+     * Name of the server type in `ServerManager.types`.
+     */
+    type: string;
+    version?: string;
+    memory?: [number, number];
+    javaPath?: string;
+    launchProfile?: LaunchProfile;
+    jarFile?: string;
+    groups?: string[];
+    order?: number;
+    forgeVersion?: string;
+    neoforgeVersion?: string;
+    loaderVersion?: string;
+    installerVersion?: string;
+    build?: number | "latest";
+    project?: string;
+  }
+
+  export interface Registry {
+    servers: Definition[];
+  }
+
+  export interface PortOptions {
+    /**
+     * First port to try for `server-port`. Default is 25565.
+     */
+    basePort?: number;
+    /**
+     * First port to try for `rcon.port`. Default is 25575.
+     */
+    baseRconPort?: number;
+    /**
+     * Don't check if ports are in use on this machine.
+     */
+    skipPortCheck?: boolean;
+  }
+
+  export interface GroupOptions {
+    /**
+     * Wait for each server to be ready before starting the next. Default is true.
+     */
+    waitForReady?: boolean;
+    /**
+     * Time in milliseconds to wait for each server to be ready. Default is 300000.
+     */
+    readyTimeout?: number;
+  }
+
+  /** @internal */
+  export interface Entry {
+    name: string;
+    server: Server;
+    groups: string[];
+    order: number;
+    restoreEmit: () => void;
+  }
+}
+
+export default ServerManager;
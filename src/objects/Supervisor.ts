@@ -0,0 +1,151 @@
+import Server from "./Server";
+
+/**
+ * Restarts a server when it exits unexpectedly, with exponential backoff.
+ * Events are emitted on the supervised server: `restarting` before each restart and `gave-up` once too many restarts happened within the window.
+ * A restart that fails to start the server is retried like another crash.
+ */
+export class Supervisor {
+  public options: Required<Supervisor.Options>;
+
+  /**
+   * Times of the restarts within the current window.
+   */
+  private restarts: number[] = [];
+  private consecutive = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private enabled = false;
+
+  constructor(public readonly server: Server, opts?: Supervisor.Options) {
+    this.options = { ...Supervisor.defaultOptions, ...opts };
+  }
+
+  /**
+   * Start watching the server for exits.
+   */
+  public enable(): this {
+    if (!this.enabled) {
+      this.enabled = true;
+      this.server.on("exit", this.exitHandler);
+      this.server.on("ready", this.readyHandler);
+    }
+    return this;
+  }
+
+  /**
+   * Stop watching the server and cancel a pending restart.
+   */
+  public disable(): this {
+    this.enabled = false;
+    this.server.off("exit", this.exitHandler);
+    this.server.off("ready", this.readyHandler);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    return this;
+  }
+
+  public isEnabled() {
+    return this.enabled;
+  }
+
+  /**
+   * Whether a restart is scheduled.
+   */
+  public isPending() {
+    return !!this.timer;
+  }
+
+  /**
+   * Calculate the delay before the next restart.
+   * @param attempt Number of consecutive restarts, starting at 1.
+   */
+  public getDelay(attempt: number) {
+    const { initialDelay, maxDelay, factor } = this.options;
+    return Math.min(initialDelay * Math.pow(factor, attempt - 1), maxDelay);
+  }
+
+  private readyHandler = () => {
+    // Reset the backoff once the server manages to start again
+    this.consecutive = 0;
+  };
+
+  private exitHandler = (code: number, info?: Server.ExitInfo) => {
+    // Servers that were stopped or killed on purpose stay down
+    if (!info || info.requested || !this.options.restartOn.includes(info.reason)) return;
+    this.scheduleRestart(info);
+  };
+
+  /**
+   * Restart the server after the backoff delay, or give up if it restarted too often within the window.
+   */
+  private scheduleRestart(info: Server.ExitInfo) {
+    const now = Date.now();
+    this.restarts = this.restarts.filter(time => now - time < this.options.window);
+    if (this.restarts.length >= this.options.maxRestarts) {
+      this.disable();
+      this.server.emit("gave-up", info, this.restarts.length);
+      return;
+    }
+
+    this.restarts.push(now);
+    const attempt = ++this.consecutive;
+    const delay = this.getDelay(attempt);
+    this.server.emit("restarting", info, attempt, delay);
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.enabled || this.server.isRunning()) return;
+      const startedAt = new Date();
+      this.server.start().catch((error: unknown) => {
+        // Without a listener, emitting "error" would throw
+        if (this.server.listenerCount("error") > 0) this.server.emit("error", error instanceof Error ? error : new Error(String(error)));
+        // A server that fails to start counts as another crash
+        if (this.enabled && !this.timer) {
+          this.scheduleRestart({ code: -1, reason: "crash", requested: false, startedAt, exitedAt: new Date() });
+        }
+      });
+    }, delay);
+  }
+}
+
+export namespace Supervisor {
+  export interface Options {
+    /**
+     * Exit reasons that cause a restart. Default is `crash` and `oom`.
+     */
+    restartOn?: Server.ExitReason[];
+    /**
+     * Delay in milliseconds before the first restart. Default is 5000.
+     */
+    initialDelay?: number;
+    /**
+     * Maximum delay in milliseconds between restarts. Default is 300000.
+     */
+    maxDelay?: number;
+    /**
+     * Multiplier applied to the delay after each consecutive crash. Default is 2.
+     */
+    factor?: number;
+    /**
+     * Maximum number of restarts within `window` before giving up. Default is 5.
+     */
+    maxRestarts?: number;
+    /**
+     * Length in milliseconds of the window restarts are counted in. Default is 600000.
+     */
+    window?: number;
+  }
+
+  export const defaultOptions: Required<Options> = {
+    restartOn: ["crash", "oom"],
+    initialDelay: 5000,
+    maxDelay: 300000,
+    factor: 2,
+    maxRestarts: 5,
+    window: 600000
+  };
+}
+
+export default Supervisor;
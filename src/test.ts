@@ -2,6 +2,7 @@ import MinecraftApi from "./MinecraftApi";
 import ForgeServer from "./objects/ForgeServer";
 import Server from "./objects/Server";
 import { wait } from "./Utilities";
+import Downloader from "./Downloader";
 import fsp from "node:fs/promises";
 
 (async () => {
@@ -17,10 +18,11 @@ import fsp from "node:fs/promises";
   server.acceptEula();
 
   if (!await server.checkInstalled()) {
-    const stream = new Server.ProgressStream();
-    stream.on("data", console.log);
+    const downloader = new Downloader();
+    downloader.on("start", ({ url }) => console.log("Downloading", url));
+    downloader.on("progress", ({ bytes, total }) => console.log(`Progress: ${bytes}/${total ?? "?"}`));
     await server.installServer({
-      progressStream: stream
+      downloader
     })
       .then(() => console.log("Server installed"))
       .catch((err) => console.error(err)); 